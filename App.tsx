@@ -1,11 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { Bot, Sparkles, Layout, Settings, X, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Bot, Sparkles, Layout, Settings, X, AlertCircle, History, FolderOpen, RotateCw, Files } from 'lucide-react';
 import { InputSection } from './components/InputSection';
 import { PlanOverview } from './components/PlanOverview';
 import { ComparisonView } from './components/ComparisonView';
 import { SettingsDialog } from './components/SettingsDialog';
-import { analyzeAndPlan, executeStep } from './services/geminiService';
-import { AgentPlan, DocumentState, StepStatus, ReviewStep, AppConfig, AVAILABLE_MODELS } from './types';
+import { VersionTimeline } from './components/VersionTimeline';
+import { HunkReview } from './components/HunkReview';
+import { CandidatePicker } from './components/CandidatePicker';
+import { ProjectList } from './components/ProjectList';
+import { BatchWorkspace } from './components/BatchWorkspace';
+import { analyzeAndPlan, executeStep, mergeCandidates, scoreVersion, commentOnStep } from './services/geminiService';
+import { DEFAULT_CANDIDATES, candidateStep, describeVariant } from './services/candidateService';
+import { getProvider, isProviderConfigured } from './services/providers';
+import { estimateCost, formatCost, unpricedModels } from './services/usageService';
+import { diffTexts, splitIntoHunks, summarizeDiff } from './services/diffService';
+import { createProject, getProject, saveProject, renameProject, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { nextRunnableStep, moveStep, removeStep } from './services/planService';
+import { EMPTY_DOCUMENT, createDocumentState, appendVersion, setVersionScore, checkoutVersion, getLineage, syncStepsWithLineage, addComments, setCommentStatus } from './services/historyService';
+import { applyComment } from './services/commentService';
+import { outputLanguage } from './services/languageService';
+import { DEFAULT_CONTENT_GUARD, detectContentLoss, summarizeLosses } from './services/contentGuard';
+import { AgentPlan, DocumentState, StepStatus, ReviewStep, AppConfig, HunkedDiff, Project, RetryInfo, UsageRecord, CritiqueVerdict, CandidateVariant, CandidateChoice, StepCandidate, ContentLoss, ReviewComment, ReviewMode, AVAILABLE_MODELS } from './types';
 
 const DEFAULT_CONFIG: AppConfig = {
   apiKey: process.env.API_KEY || '',
@@ -14,17 +29,73 @@ const DEFAULT_CONFIG: AppConfig = {
 };
 
 function App() {
-  const [docState, setDocState] = useState<DocumentState>({
-    originalText: '',
-    currentText: '',
-    version: 0
-  });
+  const [docState, setDocState] = useState<DocumentState>(EMPTY_DOCUMENT);
   
   const [plan, setPlan] = useState<AgentPlan | null>(null);
   const [activeStepId, setActiveStepId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isAutoRunning, setIsAutoRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [hasUnsavedEdit, setHasUnsavedEdit] = useState(false);
+
+  // Review gate: a finished step waits here until the user accepts or rejects its hunks
+  const [pauseForReview, setPauseForReview] = useState(false);
+  const [pendingReview, setPendingReview] = useState<{
+    stepName: string;
+    diffSummary?: string;
+    parts: HunkedDiff;
+  } | null>(null);
+  const reviewResolverRef = useRef<((mergedText: string | null) => void) | null>(null);
+
+  // Best-of-N: the finished candidates wait here until the user picks one or asks for a merge
+  const [pendingCandidates, setPendingCandidates] = useState<{
+    stepName: string;
+    baseText: string;
+    candidates: StepCandidate[];
+    failures: string[];
+  } | null>(null);
+  const candidateResolverRef = useRef<((choice: CandidateChoice | null) => void) | null>(null);
+  const [candidateProgress, setCandidateProgress] = useState<{ index: number; total: number } | null>(null);
+
+  // Live preview of the running step's output
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const streamBufferRef = useRef('');
+  const streamTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [sectionProgress, setSectionProgress] = useState<{ index: number; total: number } | null>(null);
+  // Critic pass of the running step: the attempt under review, then its verdict
+  const [critiqueStatus, setCritiqueStatus] = useState<{ attempt: number; verdict?: CritiqueVerdict } | null>(null);
+
+  // Cancellation of the in-flight request, and pausing auto-run between steps
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pauseRequestedRef = useRef(false);
+  const [isPauseRequested, setIsPauseRequested] = useState(false);
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
+
+  // Transient provider failure being retried; shown instead of the error banner while retries remain
+  const [retryStatus, setRetryStatus] = useState<(RetryInfo & { until: number }) | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Local project persistence (IndexedDB); docState and plan are autosaved into the open project
+  const [project, setProject] = useState<Omit<Project, 'updatedAt' | 'docState' | 'plan'> | null>(null);
+  const [isProjectListOpen, setIsProjectListOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  // Mirrors project.usageLog synchronously so auto-run can check the budget between steps
+  const usageLogRef = useRef<UsageRecord[]>([]);
+  // What the store holds for the open project, so that autosave skips state it was just loaded from
+  const persistedRef = useRef<{ project: typeof project; docState: DocumentState; plan: AgentPlan | null } | null>(null);
+  // The debounced autosave not written yet; flushed before another project replaces the open one
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+
+  // Background rubric scoring, one version at a time; failures are kept so they are not retried in a loop
+  const scoringRef = useRef<AbortController | null>(null);
+  const [scoringVersionId, setScoringVersionId] = useState<string | null>(null);
+  const [scoreFailures, setScoreFailures] = useState<Record<string, string>>({});
+
+  const lineage = useMemo(
+    () => getLineage(docState.versions, docState.headVersionId),
+    [docState.versions, docState.headVersionId]
+  );
 
   // Config State
   const [config, setConfig] = useState<AppConfig>(() => {
@@ -43,69 +114,358 @@ function App() {
     }
     return DEFAULT_CONFIG;
   });
+
+  const documentLanguage = useMemo(() => outputLanguage(config, docState.currentText), [config, docState.currentText]);
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const isConfigured = isProviderConfigured(config);
+  const executionProvider = config.phases?.execution?.provider || config.provider;
+  // Models a run may call without a known price; a project budget cannot count their cost
+  const runUnpricedModels = useMemo(() => unpricedModels(
+    config,
+    config.critic?.enabled || config.scoring !== false ? ['planning', 'execution', 'critique'] : ['planning', 'execution'],
+    plan?.steps.map(s => s.overrides)
+  ), [config, plan]);
 
-  // Check if we need to force show settings (no API key)
+  // Check if we need to force show settings (provider not configured)
   useEffect(() => {
-    if (!config.apiKey && !isSettingsOpen) {
+    if (!isConfigured && !isSettingsOpen) {
       // Small delay to allow initial render
       const timer = setTimeout(() => setIsSettingsOpen(true), 500);
       return () => clearTimeout(timer);
     }
-  }, [config.apiKey]);
+  }, [isConfigured]);
+
+  const stopScoring = () => {
+    scoringRef.current?.abort();
+    setScoreFailures({});
+  };
+
+  const flushProjectSave = () => pendingSaveRef.current?.() ?? Promise.resolve();
+
+  const loadProject = async (id: string) => {
+    await flushProjectSave();
+    const stored = await getProject(id);
+    stopScoring();
+    if (!stored) {
+      setLastProjectId(null);
+      return;
+    }
+    usageLogRef.current = stored.usageLog || [];
+    const opened = {
+      id: stored.id,
+      name: stored.name,
+      createdAt: stored.createdAt,
+      usageLog: usageLogRef.current,
+      budgetUsd: stored.budgetUsd,
+      reviewMode: stored.reviewMode
+    };
+    persistedRef.current = { project: opened, docState: stored.docState, plan: stored.plan };
+    setProject(opened);
+    setDocState(stored.docState);
+    setPlan(stored.plan);
+    setLastProjectId(stored.id);
+  };
+
+  // Reopen the last project after a reload
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (lastId) {
+      loadProject(lastId).catch(err => setError(err.message));
+    }
+  }, []);
+
+  // Autosave the open project shortly after each change
+  useEffect(() => {
+    if (!project) return;
+    const persisted = persistedRef.current;
+    if (persisted && persisted.project === project && persisted.docState === docState && persisted.plan === plan) return;
+    const save = async () => {
+      if (pendingSaveRef.current !== save) return;
+      pendingSaveRef.current = null;
+      persistedRef.current = { project, docState, plan };
+      await saveProject({ ...project, updatedAt: Date.now(), docState, plan });
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(() => save().catch(err => setError(err.message)), 800);
+    return () => clearTimeout(timer);
+  }, [project, docState, plan]);
+
+  const resetWorkspace = () => {
+    flushProjectSave().catch(err => setError(err.message));
+    setPlan(null);
+    setDocState(EMPTY_DOCUMENT);
+    setIsHistoryOpen(false);
+    setProject(null);
+    setLastProjectId(null);
+    usageLogRef.current = [];
+    stopScoring();
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (isProcessing) return;
+    try {
+      await loadProject(id);
+      setIsProjectListOpen(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    if (project?.id === id) {
+      setProject({ ...project, name });
+    }
+    await renameProject(id, name);
+  };
+
+  const handleBudgetChange = (budgetUsd?: number) => {
+    setProject(prev => prev ? { ...prev, budgetUsd } : null);
+  };
+
+  const reviewMode: ReviewMode = project?.reviewMode || 'rewrite';
+
+  const handleReviewModeChange = (mode: ReviewMode) => {
+    setProject(prev => prev ? { ...prev, reviewMode: mode } : null);
+  };
+
+  /**
+   * Returns an onUsage callback that appends every model call to the project's usage log.
+   */
+  const recordUsage = (label: string) => (usage: UsageRecord) => {
+    usageLogRef.current = [...usageLogRef.current, { ...usage, label }];
+    setProject(prev => prev ? { ...prev, usageLog: usageLogRef.current } : null);
+  };
 
   const handleSaveConfig = (newConfig: AppConfig) => {
     setConfig(newConfig);
     localStorage.setItem('docurefine_config', JSON.stringify(newConfig));
   };
 
+  // Tick once a second while a retry countdown is visible
+  useEffect(() => {
+    if (!retryStatus) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryStatus]);
+
+  const handleRetry = (info: RetryInfo) => {
+    setNow(Date.now());
+    setRetryStatus({ ...info, until: Date.now() + info.delayMs });
+  };
+
+  const beginRequest = () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setRetryStatus(null);
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    // A step parked at the review gate is discarded as well
+    if (reviewResolverRef.current) {
+      resolveReview(null);
+    }
+    if (candidateResolverRef.current) {
+      resolveCandidates(null);
+    }
+  };
+
+  const handlePauseAutoRun = () => {
+    pauseRequestedRef.current = true;
+    setIsPauseRequested(true);
+  };
+
   const handleAnalyze = async (text: string) => {
-    if (!config.apiKey) {
+    if (!isConfigured) {
       setIsSettingsOpen(true);
       return;
     }
 
     setIsProcessing(true);
     setError(null);
+    const signal = beginRequest();
+    usageLogRef.current = [];
     try {
-      const generatedPlan = await analyzeAndPlan(text, config);
+      const generatedPlan = await analyzeAndPlan(text, config, { signal, onRetry: handleRetry, onUsage: recordUsage('文档分析') });
+      const newDoc = { ...createDocumentState(text), rubric: generatedPlan.analysis.rubric };
+      const newProject = { ...createProject(newDoc, generatedPlan), usageLog: usageLogRef.current };
+      await saveProject(newProject);
+      setLastProjectId(newProject.id);
+      const opened = { id: newProject.id, name: newProject.name, createdAt: newProject.createdAt, usageLog: newProject.usageLog };
+      persistedRef.current = { project: opened, docState: newDoc, plan: generatedPlan };
+      setProject(opened);
       setPlan(generatedPlan);
-      setDocState({
-        originalText: text,
-        currentText: text,
-        version: 1
-      });
+      setDocState(newDoc);
     } catch (err: any) {
+      if (signal.aborted) return;
       setError(err.message || '文档分析失败，请检查 API Key 或重试。');
       if (err.message?.includes('API Key')) {
         setIsSettingsOpen(true);
       }
     } finally {
+      setRetryStatus(null);
       setIsProcessing(false);
     }
   };
 
   const handleNewIteration = async () => {
-    if (!docState.currentText) return;
-    if (!config.apiKey) {
+    if (!docState.currentText || blockedByUnsavedEdit()) return;
+    if (!isConfigured) {
       setIsSettingsOpen(true);
       return;
     }
     
     setIsProcessing(true);
     setError(null);
+    setIsAutoPaused(false);
+    const signal = beginRequest();
     try {
       // Re-analyze based on current text
-      const generatedPlan = await analyzeAndPlan(docState.currentText, config);
+      const generatedPlan = await analyzeAndPlan(docState.currentText, config, { signal, onRetry: handleRetry, onUsage: recordUsage('新一轮分析') });
       setPlan(generatedPlan);
+      // The first rubric is kept so that scores stay comparable across iterations
+      setDocState(prev => prev.rubric?.length ? prev : { ...prev, rubric: generatedPlan.analysis.rubric });
     } catch (err: any) {
+      if (signal.aborted) return;
       setError(err.message || '新一轮分析失败，请重试。');
     } finally {
+      setRetryStatus(null);
       setIsProcessing(false);
     }
   };
 
+  // Score the versions of the current branch that have no score yet, oldest first
+  useEffect(() => {
+    const rubric = docState.rubric;
+    if (!plan || !rubric?.length || config.scoring === false || !isConfigured || scoringRef.current) return;
+    const target = lineage.find(v => !v.score && !scoreFailures[v.id]);
+    if (!target) return;
+
+    const controller = new AbortController();
+    scoringRef.current = controller;
+    setScoringVersionId(target.id);
+    scoreVersion(target.text, rubric, plan.analysis, config, { signal: controller.signal, onUsage: recordUsage('质量评分') })
+      .then(score => setDocState(prev => setVersionScore(prev, target.id, score)))
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setScoreFailures(prev => ({ ...prev, [target.id]: err.message }));
+        }
+      })
+      .finally(() => {
+        scoringRef.current = null;
+        setScoringVersionId(null);
+      });
+  }, [lineage, docState.rubric, plan, config, isConfigured, scoreFailures, scoringVersionId]);
+
+  // Throttled: re-rendering the markdown preview on every token is too slow for long documents
+  const handleStreamProgress = (partialText: string) => {
+    setRetryStatus(null);
+    streamBufferRef.current = partialText;
+    if (streamTimerRef.current) return;
+    streamTimerRef.current = setTimeout(() => {
+      streamTimerRef.current = null;
+      setStreamingText(streamBufferRef.current);
+    }, 200);
+  };
+
+  const handleSection = (index: number, total: number) => setSectionProgress({ index, total });
+
+  const handleCritique = (attempt: number, verdict?: CritiqueVerdict) => setCritiqueStatus({ attempt, verdict });
+
+  const endStream = () => {
+    setRetryStatus(null);
+    setSectionProgress(null);
+    setCritiqueStatus(null);
+    setCandidateProgress(null);
+    if (streamTimerRef.current) {
+      clearTimeout(streamTimerRef.current);
+      streamTimerRef.current = null;
+    }
+    setStreamingText(null);
+  };
+
+  /**
+   * Shows a step's changes as hunks and resolves with the merged text, or null if the step is discarded.
+   * Resolves immediately with the revised text when nothing changed.
+   */
+  const requestReview = (step: ReviewStep, baseText: string, result: { revisedText: string; diffSummary: string }) => {
+    return new Promise<string | null>(resolve => {
+      const parts = splitIntoHunks(diffTexts(baseText, result.revisedText, 'sentence'));
+      if (parts.every(p => typeof p === 'string')) {
+        resolve(result.revisedText);
+        return;
+      }
+      reviewResolverRef.current = resolve;
+      setPendingReview({ stepName: step.name, diffSummary: result.diffSummary, parts });
+    });
+  };
+
+  const resolveReview = (mergedText: string | null) => {
+    reviewResolverRef.current?.(mergedText);
+    reviewResolverRef.current = null;
+    setPendingReview(null);
+  };
+
+  const resolveCandidates = (choice: CandidateChoice | null) => {
+    candidateResolverRef.current?.(choice);
+    candidateResolverRef.current = null;
+    setPendingCandidates(null);
+  };
+
+  /**
+   * Runs a step once per variant against the same text, then waits for the user to pick one
+   * candidate or have several merged. Resolves with the chosen result, or null when all are discarded.
+   * A failed candidate only drops out; the run fails when none succeed.
+   */
+  const runCandidates = async (
+    step: ReviewStep,
+    analysis: AgentPlan['analysis'],
+    variants: CandidateVariant[],
+    signal: AbortSignal
+  ): Promise<{ revisedText: string; diffSummary: string; usage?: UsageRecord; critiques?: CritiqueVerdict[] } | null> => {
+    const baseText = docState.currentText;
+    const candidates: StepCandidate[] = [];
+    const failures: string[] = [];
+    for (let i = 0; i < variants.length; i++) {
+      setCandidateProgress({ index: i, total: variants.length });
+      try {
+        const result = await executeStep(
+          baseText,
+          candidateStep(step, variants[i]),
+          analysis,
+          config,
+          { onProgress: handleStreamProgress, onSection: handleSection, onCritique: handleCritique, signal, onRetry: handleRetry, onUsage: recordUsage(`${step.name}（候选 ${i + 1}）`) }
+        );
+        candidates.push({ variant: variants[i], ...result });
+      } catch (err: any) {
+        if (signal.aborted) throw err;
+        failures.push(`候选 ${i + 1}（${describeVariant(variants[i], config)}）：${err.message}`);
+      } finally {
+        endStream();
+      }
+    }
+    if (candidates.length === 0) {
+      throw new Error(`所有候选均生成失败：\n${failures.join('\n')}`);
+    }
+
+    const choice = await new Promise<CandidateChoice | null>(resolve => {
+      candidateResolverRef.current = resolve;
+      setPendingCandidates({ stepName: step.name, baseText, candidates, failures });
+    });
+    if (!choice) return null;
+    if (choice.kind === 'pick') return candidates[choice.index];
+    return mergeCandidates(
+      baseText,
+      step,
+      choice.indices.map(i => candidates[i]),
+      analysis,
+      config,
+      { onProgress: handleStreamProgress, signal, onRetry: handleRetry, onUsage: recordUsage(`${step.name}（合并候选）`) }
+    );
+  };
+
   const handleAddStep = (name: string, description: string) => {
     if (!plan) return;
     const newStep: ReviewStep = {
@@ -126,45 +486,134 @@ function App() {
     if (!plan) return;
     setPlan({
       ...plan,
-      steps: plan.steps.filter(s => s.id !== stepId)
+      steps: removeStep(plan.steps, stepId)
+    });
+  };
+
+  const handleUpdateStep = (stepId: string, changes: Pick<ReviewStep, 'name' | 'description' | 'reasoning' | 'dependsOn' | 'overrides'>) => {
+    if (!plan) return;
+    setPlan({
+      ...plan,
+      steps: plan.steps.map(s => s.id === stepId ? { ...s, ...changes } : s)
     });
   };
 
-  const handleStepExecution = async (stepId: string) => {
+  const handleMoveStep = (stepId: string, toIndex: number) => {
+    if (!plan) return;
+    setPlan({ ...plan, steps: moveStep(plan.steps, stepId, toIndex) });
+  };
+
+  // A skipped step stops blocking its dependents; restoring it puts it back in the queue
+  const handleSkipStep = (stepId: string, skipped: boolean) => {
+    if (!plan) return;
+    setPlan({
+      ...plan,
+      steps: plan.steps.map(s => s.id === stepId ? { ...s, status: skipped ? StepStatus.SKIPPED : StepStatus.PENDING } : s)
+    });
+  };
+
+  const contentGuard = config.contentGuard || DEFAULT_CONTENT_GUARD;
+
+  // Structural losses of a step result against the text it was run on; a translation is compared leniently
+  const checkContent = (before: string, after: string): ContentLoss[] =>
+    contentGuard.mode === 'off' ? [] : detectContentLoss(before, after, contentGuard, { translated: !!config.translateTo });
+
+  const blockedMessage = (stepName: string, losses: ContentLoss[]) =>
+    `内容保护已阻止提交「${stepName}」：结果丢失了 ${summarizeLosses(losses)}。可重试该步骤，或在设置中将内容保护改为仅警告。`;
+
+  // With variants the step runs as best-of-N and the user chooses the result before review
+  const handleStepExecution = async (stepId: string, variants?: CandidateVariant[]) => {
     if (!plan || isProcessing) return;
-    if (!config.apiKey) {
+    if (!isConfigured) {
       setIsSettingsOpen(true);
       return;
     }
 
     const stepIndex = plan.steps.findIndex(s => s.id === stepId);
-    if (stepIndex === -1) return;
+    if (stepIndex === -1 || blockedByUnsavedEdit()) return;
+    if (variants) {
+      handleSaveConfig({ ...config, candidates: variants });
+    }
 
     setActiveStepId(stepId);
     setIsProcessing(true);
     setError(null);
+    const signal = beginRequest();
 
     // Update status to In Progress (Immutable way)
     setPlan(prev => {
         if (!prev) return null;
         const newSteps = [...prev.steps];
-        newSteps[stepIndex] = { ...newSteps[stepIndex], status: StepStatus.IN_PROGRESS };
+        newSteps[stepIndex] = { ...newSteps[stepIndex], status: StepStatus.IN_PROGRESS, losses: undefined };
         return { ...prev, steps: newSteps };
     });
 
     try {
-      const result = await executeStep(
-        docState.currentText, 
-        plan.steps[stepIndex], 
-        plan.analysis,
-        config
-      );
-
-      // Update state with new text
-      setDocState(prev => ({
-        ...prev,
-        currentText: result.revisedText,
-        version: prev.version + 1
+      const step = plan.steps[stepIndex];
+      if (reviewMode === 'comments') {
+        // Comments leave the text alone, so there is nothing to review and no version to record
+        const review = await commentOnStep(
+          docState.currentText,
+          step,
+          plan.analysis,
+          config,
+          { onSection: handleSection, signal, onRetry: handleRetry, onUsage: recordUsage(step.name) }
+        );
+        setDocState(prev => addComments(prev, review.comments));
+        setPlan(prev => {
+          if (!prev) return null;
+          const newSteps = [...prev.steps];
+          newSteps[stepIndex] = {
+              ...newSteps[stepIndex],
+              status: StepStatus.COMPLETED,
+              diffSummary: review.summary,
+              commentCount: review.comments.length,
+              usage: review.usage
+          };
+          return { ...prev, steps: newSteps };
+        });
+        return;
+      }
+
+      const result = variants
+        ? await runCandidates(step, plan.analysis, variants, signal)
+        : await executeStep(
+            docState.currentText, 
+            step, 
+            plan.analysis,
+            config,
+            { onProgress: handleStreamProgress, onSection: handleSection, onCritique: handleCritique, signal, onRetry: handleRetry, onUsage: recordUsage(step.name) }
+          );
+      endStream();
+
+      const mergedText = result ? await requestReview(step, docState.currentText, result) : null;
+      if (!result || mergedText === null) {
+        // Every candidate or every change was rejected: the step goes back to the queue
+        setPlan(prev => {
+          if (!prev) return null;
+          const newSteps = [...prev.steps];
+          newSteps[stepIndex] = { ...newSteps[stepIndex], status: StepStatus.PENDING };
+          return { ...prev, steps: newSteps };
+        });
+        return;
+      }
+
+      const losses = checkContent(docState.currentText, mergedText);
+      if (losses.length > 0 && contentGuard.mode === 'block') {
+        setError(blockedMessage(step.name, losses));
+        setPlan(prev => {
+          if (!prev) return null;
+          const newSteps = [...prev.steps];
+          newSteps[stepIndex] = { ...newSteps[stepIndex], status: StepStatus.FAILED, diffSummary: result.diffSummary, losses };
+          return { ...prev, steps: newSteps };
+        });
+        return;
+      }
+
+      // Record the new text as a version
+      setDocState(prev => appendVersion(prev, mergedText, step.name, {
+        stepId: step.id,
+        diffSummary: result.diffSummary
       }));
 
       // Update step status and info
@@ -174,106 +623,252 @@ function App() {
         newSteps[stepIndex] = {
             ...newSteps[stepIndex],
             status: StepStatus.COMPLETED,
-            output: result.revisedText,
-            diffSummary: result.diffSummary
+            output: mergedText,
+            diffSummary: result.diffSummary,
+            usage: result.usage,
+            critiques: result.critiques,
+            losses: losses.length ? losses : undefined
         };
         return { ...prev, steps: newSteps };
       });
 
     } catch (err: any) {
-      setError(err.message || `步骤执行失败: ${plan.steps[stepIndex].name}`);
+      // A cancelled step is not a failure: it simply goes back to pending
+      if (!signal.aborted) {
+        setError(err.message || `步骤执行失败: ${plan.steps[stepIndex].name}`);
+      }
       setPlan(prev => {
         if (!prev) return null;
         const newSteps = [...prev.steps];
-        newSteps[stepIndex] = { ...newSteps[stepIndex], status: StepStatus.FAILED };
+        newSteps[stepIndex] = { ...newSteps[stepIndex], status: signal.aborted ? StepStatus.PENDING : StepStatus.FAILED };
         return { ...prev, steps: newSteps };
       });
     } finally {
+      endStream();
       setIsProcessing(false);
       setActiveStepId(null);
     }
   };
 
   const handleAutoRun = async () => {
-    if (!plan || isProcessing) return;
-    if (!config.apiKey) {
+    if (!plan || isProcessing || blockedByUnsavedEdit()) return;
+    if (!isConfigured) {
       setIsSettingsOpen(true);
       return;
     }
+    const budgetUsd = project?.budgetUsd;
+    if (budgetUsd !== undefined && runUnpricedModels.length) {
+      setError(`已设置项目预算，但模型 ${runUnpricedModels.join('、')} 没有价格，无法计入花费：请在设置中填写其价格后再自动执行。`);
+      return;
+    }
 
     setIsProcessing(true);
     setIsAutoRunning(true);
+    setIsAutoPaused(false);
     setError(null);
+    pauseRequestedRef.current = false;
+    setIsPauseRequested(false);
+    const signal = beginRequest();
 
     // Maintain local references for the chain execution
     let currentText = docState.currentText;
     let currentSteps = [...plan.steps];
+    let runningStepId: string | null = null;
+    let paused = false;
 
     try {
-      for (let i = 0; i < currentSteps.length; i++) {
-        const step = currentSteps[i];
-        if (step.status === StepStatus.PENDING) {
-            setActiveStepId(step.id);
-            
-            // Mark start in UI
-            const runningSteps = [...currentSteps];
-            runningSteps[i] = { ...step, status: StepStatus.IN_PROGRESS };
-            setPlan(prev => prev ? ({ ...prev, steps: runningSteps }) : null);
-
-            // Execute using the LATEST text
-            const result = await executeStep(
+      // Any step whose dependencies are resolved may run; steps rejected at the review gate are not retried in this run
+      const deferred = new Set<string>();
+      for (let next = nextRunnableStep(currentSteps, deferred); next; next = nextRunnableStep(currentSteps, deferred)) {
+        const step = next;
+        const i = currentSteps.indexOf(step);
+        if (signal.aborted) break;
+        if (pauseRequestedRef.current) {
+            paused = true;
+            break;
+        }
+        if (budgetUsd !== undefined) {
+            const { cost: spent, unpriced } = estimateCost(usageLogRef.current, config.prices);
+            if (unpriced) {
+                setError('项目用量中有模型没有价格，无法核对预算，自动执行已停止：请在设置中填写其价格。');
+                paused = true;
+                break;
+            }
+            if (spent >= budgetUsd) {
+                setError(`已达到项目预算 ${formatCost(budgetUsd)}（估算已花费 ${formatCost(spent)}），自动执行已停止。`);
+                paused = true;
+                break;
+            }
+        }
+
+        runningStepId = step.id;
+        setActiveStepId(step.id);
+        
+        // Mark start in UI
+        const runningSteps = [...currentSteps];
+        runningSteps[i] = { ...step, status: StepStatus.IN_PROGRESS, losses: undefined };
+        setPlan(prev => prev ? ({ ...prev, steps: runningSteps }) : null);
+
+        if (reviewMode === 'comments') {
+            const review = await commentOnStep(
                 currentText,
                 runningSteps[i],
                 plan.analysis,
-                config
+                config,
+                { onSection: handleSection, signal, onRetry: handleRetry, onUsage: recordUsage(step.name) }
             );
-
-            // Update local chain variables
-            currentText = result.revisedText;
-
-            // Mark complete in UI
-            const completedSteps = [...runningSteps];
-            completedSteps[i] = {
+            endStream();
+            const commentedSteps = [...runningSteps];
+            commentedSteps[i] = {
                 ...runningSteps[i],
                 status: StepStatus.COMPLETED,
-                output: result.revisedText,
-                diffSummary: result.diffSummary
+                diffSummary: review.summary,
+                commentCount: review.comments.length,
+                usage: review.usage
             };
-            currentSteps = completedSteps; // Sync local steps
-            
-            // Sync React State
-            setPlan(prev => prev ? ({ ...prev, steps: completedSteps }) : null);
-            setDocState(prev => ({
-                ...prev,
-                currentText: result.revisedText,
-                version: prev.version + 1
-            }));
-            
-            // Small pause for visual flow
-            await new Promise(resolve => setTimeout(resolve, 800));
+            currentSteps = commentedSteps;
+            runningStepId = null;
+            setPlan(prev => prev ? ({ ...prev, steps: commentedSteps }) : null);
+            setDocState(prev => addComments(prev, review.comments));
+            continue;
+        }
+
+        // Execute using the LATEST text
+        const result = await executeStep(
+            currentText,
+            runningSteps[i],
+            plan.analysis,
+            config,
+            { onProgress: handleStreamProgress, onSection: handleSection, onCritique: handleCritique, signal, onRetry: handleRetry, onUsage: recordUsage(step.name) }
+        );
+        endStream();
+
+        const mergedText = pauseForReview
+            ? await requestReview(step, currentText, result)
+            : result.revisedText;
+
+        if (mergedText === null) {
+            // Rejected at the review gate: leave the step pending and move on
+            deferred.add(step.id);
+            const skippedSteps = [...runningSteps];
+            skippedSteps[i] = { ...runningSteps[i], status: StepStatus.PENDING };
+            currentSteps = skippedSteps;
+            runningStepId = null;
+            setPlan(prev => prev ? ({ ...prev, steps: skippedSteps }) : null);
+            continue;
+        }
+
+        const losses = checkContent(currentText, mergedText);
+        if (losses.length > 0 && contentGuard.mode === 'block') {
+            // A blocked result fails the step and stops the run, like any other failure
+            const blockedSteps = [...runningSteps];
+            blockedSteps[i] = { ...runningSteps[i], status: StepStatus.FAILED, diffSummary: result.diffSummary, losses };
+            currentSteps = blockedSteps;
+            runningStepId = null;
+            setPlan(prev => prev ? ({ ...prev, steps: blockedSteps }) : null);
+            setError(blockedMessage(step.name, losses));
+            break;
         }
+
+        // Update local chain variables
+        currentText = mergedText;
+
+        // Mark complete in UI
+        const completedSteps = [...runningSteps];
+        completedSteps[i] = {
+            ...runningSteps[i],
+            status: StepStatus.COMPLETED,
+            output: mergedText,
+            diffSummary: result.diffSummary,
+            usage: result.usage,
+            critiques: result.critiques,
+            losses: losses.length ? losses : undefined
+        };
+        currentSteps = completedSteps; // Sync local steps
+        runningStepId = null;
+        
+        // Sync React State
+        setPlan(prev => prev ? ({ ...prev, steps: completedSteps }) : null);
+        setDocState(prev => appendVersion(prev, mergedText, step.name, {
+            stepId: step.id,
+            diffSummary: result.diffSummary
+        }));
+        
+        // Small pause for visual flow
+        await new Promise(resolve => setTimeout(resolve, 800));
       }
     } catch (err: any) {
-        setError(err.message || "自动执行被中断或发生错误");
-        // Mark current as failed if active
-        if (activeStepId) {
+        if (!signal.aborted) {
+            setError(err.message || "自动执行被中断或发生错误");
+        }
+        // Mark current as failed if active; a cancelled step goes back to pending
+        const failedStepId = runningStepId;
+        if (failedStepId) {
              setPlan(prev => {
                  if (!prev) return null;
                  const newSteps = [...prev.steps];
-                 const idx = newSteps.findIndex(s => s.id === activeStepId);
+                 const idx = newSteps.findIndex(s => s.id === failedStepId);
                  if (idx !== -1) {
-                     newSteps[idx] = { ...newSteps[idx], status: StepStatus.FAILED };
+                     newSteps[idx] = { ...newSteps[idx], status: signal.aborted ? StepStatus.PENDING : StepStatus.FAILED };
                  }
                  return { ...prev, steps: newSteps };
              });
         }
     } finally {
+        endStream();
+        pauseRequestedRef.current = false;
+        setIsPauseRequested(false);
+        setIsAutoPaused(paused);
         setIsProcessing(false);
         setIsAutoRunning(false);
         setActiveStepId(null);
     }
   };
 
+  // A manual edit becomes a version like any step, so later steps build on it and it shows in diffs
+  const handleManualEdit = (text: string, note: string) => {
+    if (text === docState.currentText) return;
+    const { added, removed } = summarizeDiff(diffTexts(docState.currentText, text, 'word'));
+    setDocState(prev => appendVersion(prev, text, '手动编辑', {
+      manual: true,
+      diffSummary: note || `手动修改：+${added} / -${removed} 字符`
+    }));
+  };
+
+  // An applied suggestion is a version of its own, so it can be compared and undone like any edit
+  const handleApplyComment = (comment: ReviewComment) => {
+    if (isProcessing || blockedByUnsavedEdit()) return;
+    const text = applyComment(docState.currentText, comment);
+    if (text === null) {
+      setError('批注引用的原文已不在当前文档中，无法自动采纳，请手动修改。');
+      return;
+    }
+    setDocState(prev => setCommentStatus(appendVersion(prev, text, '采纳批注', {
+      diffSummary: `${comment.issue}\n「${comment.quote}」→「${comment.suggestion}」`
+    }), comment.id, 'applied'));
+  };
+
+  const handleCommentStatus = (commentId: string, status: ReviewComment['status']) => {
+    setDocState(prev => setCommentStatus(prev, commentId, status));
+  };
+
+  // A run started now would work on the saved text and the unsaved edit would be lost behind it
+  const blockedByUnsavedEdit = () => {
+    if (!hasUnsavedEdit) return false;
+    setError('文档有尚未保存的手动修改，请先保存为新版本或放弃修改。');
+    return true;
+  };
+
+  const handleCheckoutVersion = (versionId: string, mode: 'restore' | 'branch') => {
+    if (isProcessing || blockedByUnsavedEdit()) return;
+    const nextDoc = checkoutVersion(docState, versionId, mode);
+    setDocState(nextDoc);
+    setPlan(prev => prev ? ({
+      ...prev,
+      steps: syncStepsWithLineage(prev.steps, getLineage(nextDoc.versions, nextDoc.headVersionId))
+    }) : null);
+  };
+
   return (
     <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
       <SettingsDialog 
@@ -283,6 +878,30 @@ function App() {
         onSave={handleSaveConfig}
       />
 
+      <ProjectList
+        isOpen={isProjectListOpen}
+        onClose={() => setIsProjectListOpen(false)}
+        currentProjectId={project?.id || null}
+        onOpenProject={handleOpenProject}
+        onRenameProject={handleRenameProject}
+        onDeletedProject={(id) => {
+          if (project?.id === id) {
+            // Nothing of a deleted project is saved any more
+            pendingSaveRef.current = null;
+            resetWorkspace();
+          }
+        }}
+        isProcessing={isProcessing}
+      />
+
+      <BatchWorkspace
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        config={config}
+        isConfigured={isConfigured}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+      />
+
       {/* Header */}
       <header className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-6 shrink-0 z-10 relative">
         <div className="flex items-center gap-3">
@@ -295,14 +914,29 @@ function App() {
           <span className="px-2 py-0.5 rounded bg-slate-100 text-xs font-medium text-slate-500 border border-slate-200">
             Agent
           </span>
+          {project && (
+            <span className="text-sm text-slate-400 truncate max-w-xs" title={project.name}>
+              / {project.name}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3">
+           {plan && (
+             <button
+               onClick={() => setIsHistoryOpen(open => !open)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-colors text-sm font-medium ${
+                 isHistoryOpen
+                   ? 'bg-blue-50 text-accent border-blue-200'
+                   : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+               }`}
+             >
+               <History className="w-4 h-4" />
+               版本历史
+             </button>
+           )}
            {plan && (
              <button 
-               onClick={() => {
-                 setPlan(null);
-                 setDocState({ originalText: '', currentText: '', version: 0 });
-               }}
+               onClick={resetWorkspace}
                className="text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors mr-2"
                disabled={isProcessing}
              >
@@ -310,16 +944,32 @@ function App() {
              </button>
            )}
            
+           <button
+             onClick={() => setIsProjectListOpen(true)}
+             className="flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-colors text-sm font-medium bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+           >
+             <FolderOpen className="w-4 h-4" />
+             项目
+           </button>
+
+           <button
+             onClick={() => setIsBatchOpen(true)}
+             className="flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-colors text-sm font-medium bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+           >
+             <Files className="w-4 h-4" />
+             批量处理
+           </button>
+
            <button 
              onClick={() => setIsSettingsOpen(true)}
              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-colors text-sm font-medium ${
-               !config.apiKey 
+               !isConfigured 
                  ? 'bg-red-50 text-red-600 border-red-200 animate-pulse' 
                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
              }`}
            >
              <Settings className="w-4 h-4" />
-             {!config.apiKey ? '配置 API Key' : '设置'}
+             {!isConfigured ? '配置模型' : '设置'}
            </button>
 
            <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center border border-slate-200 text-slate-400">
@@ -350,6 +1000,23 @@ function App() {
           </div>
         )}
 
+        {/* Retry Banner - transient failures being retried */}
+        {retryStatus && !error && (
+          <div className="fixed top-6 left-1/2 transform -translate-x-1/2 z-[100] max-w-md w-full px-4 animate-in slide-in-from-top-4 fade-in duration-300">
+            <div className="bg-amber-50 text-amber-800 px-4 py-3 rounded-lg shadow-xl border border-amber-200 flex items-start gap-3">
+               <RotateCw className="w-5 h-5 shrink-0 mt-0.5 text-amber-500 animate-spin" />
+               <div className="flex-1 min-w-0">
+                 <h3 className="text-sm font-bold mb-0.5">
+                   重试 {retryStatus.attempt}/{retryStatus.maxRetries}，{retryStatus.until > now
+                     ? `等待 ${Math.ceil((retryStatus.until - now) / 1000)}s`
+                     : '正在重新请求...'}
+                 </h3>
+                 <p className="text-xs opacity-80 leading-relaxed truncate" title={retryStatus.reason}>{retryStatus.reason}</p>
+               </div>
+            </div>
+          </div>
+        )}
+
         {!plan ? (
           // Empty State / Input View
           <div className="h-full overflow-y-auto">
@@ -359,16 +1026,16 @@ function App() {
                   <p className="text-slate-500 leading-relaxed mb-6">
                     上传草稿，AI Agent 将自动分析、规划并执行多步评审，将您的内容提升至专家级生产标准。
                   </p>
-                  {!config.apiKey && (
+                  {!isConfigured && (
                     <button 
                       onClick={() => setIsSettingsOpen(true)}
                       className="text-sm text-accent hover:underline"
                     >
-                      请先点击此处配置 API Key 以开始使用
+                      请先点击此处配置模型服务以开始使用
                     </button>
                   )}
                </div>
-               <InputSection onAnalyze={handleAnalyze} isAnalyzing={isProcessing} />
+               <InputSection onAnalyze={handleAnalyze} onCancel={handleCancel} isAnalyzing={isProcessing} />
             </div>
           </div>
         ) : (
@@ -377,21 +1044,90 @@ function App() {
             {/* Left Sidebar: Plan & Progress */}
             <PlanOverview 
               plan={plan} 
-              onStartStep={handleStepExecution} 
+              onStartStep={(stepId) => handleStepExecution(stepId)}
+              onStartCandidates={handleStepExecution}
               onNewIteration={handleNewIteration}
               onAddStep={handleAddStep}
               onDeleteStep={handleDeleteStep}
+              onUpdateStep={handleUpdateStep}
+              onMoveStep={handleMoveStep}
+              onSkipStep={handleSkipStep}
               onAutoRun={handleAutoRun}
+              onPauseAutoRun={handlePauseAutoRun}
+              onCancel={handleCancel}
+              isPauseRequested={isPauseRequested}
+              isAutoPaused={isAutoPaused}
+              pauseForReview={pauseForReview}
+              onTogglePauseForReview={setPauseForReview}
+              isAwaitingReview={pendingReview !== null || pendingCandidates !== null}
+              candidateProgress={candidateProgress}
+              defaultCandidates={config.candidates || DEFAULT_CANDIDATES}
+              modelOptions={getProvider(executionProvider).models}
+              executionProvider={executionProvider}
+              sectionProgress={sectionProgress}
+              critiqueStatus={critiqueStatus}
               isProcessing={isProcessing}
               isAutoRunning={isAutoRunning}
               activeStepId={activeStepId}
+              usageLog={project?.usageLog || []}
+              prices={config.prices}
+              budgetUsd={project?.budgetUsd}
+              unpricedModels={runUnpricedModels}
+              onBudgetChange={handleBudgetChange}
+              reviewMode={reviewMode}
+              onReviewModeChange={handleReviewModeChange}
+              rubric={docState.rubric}
+              lineage={lineage}
+              scoringVersionId={scoringVersionId}
+              scoreFailureCount={lineage.filter(v => scoreFailures[v.id]).length}
+              onRetryScoring={() => setScoreFailures({})}
             />
 
-            {/* Right Content: Editor/Diff */}
-            <ComparisonView 
-              currentText={docState.currentText}
-              stepName={activeStepId ? plan.steps.find(s => s.id === activeStepId)?.name : '当前状态'}
-            />
+            {/* Right Content: Editor/Diff, or the candidate picker / review gate while a step waits for the user */}
+            {pendingCandidates ? (
+              <CandidatePicker
+                stepName={pendingCandidates.stepName}
+                baseText={pendingCandidates.baseText}
+                candidates={pendingCandidates.candidates}
+                failures={pendingCandidates.failures}
+                config={config}
+                onChoose={resolveCandidates}
+                onDiscard={() => resolveCandidates(null)}
+              />
+            ) : pendingReview ? (
+              <HunkReview
+                stepName={pendingReview.stepName}
+                diffSummary={pendingReview.diffSummary}
+                parts={pendingReview.parts}
+                onConfirm={resolveReview}
+                onDiscard={() => resolveReview(null)}
+              />
+            ) : (
+              <ComparisonView 
+                currentText={docState.currentText}
+                language={documentLanguage}
+                originalText={docState.originalText}
+                lineage={lineage}
+                stepName={activeStepId ? plan.steps.find(s => s.id === activeStepId)?.name : '当前状态'}
+                streamingText={streamingText}
+                onSaveEdit={isProcessing ? undefined : handleManualEdit}
+                onDirtyChange={setHasUnsavedEdit}
+                comments={docState.comments || []}
+                onApplyComment={isProcessing ? undefined : handleApplyComment}
+                onCommentStatus={handleCommentStatus}
+              />
+            )}
+
+            {isHistoryOpen && (
+              <VersionTimeline
+                versions={docState.versions}
+                headVersionId={docState.headVersionId}
+                onRestore={(id) => handleCheckoutVersion(id, 'restore')}
+                onBranch={(id) => handleCheckoutVersion(id, 'branch')}
+                onClose={() => setIsHistoryOpen(false)}
+                isProcessing={isProcessing}
+              />
+            )}
           </div>
         )}
       </main>
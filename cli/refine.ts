@@ -0,0 +1,306 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { AppConfig, ContentGuardPolicy, LLMProvider, RunEvent, StepStatus } from '../types';
+import { PROVIDERS, getProvider, isProviderConfigured } from '../services/providers';
+import { refineDocument } from '../services/runService';
+import { DEFAULT_CONTENT_GUARD, summarizeLosses } from '../services/contentGuard';
+import { DEFAULT_CRITIC } from '../services/criticService';
+import { formatCost, unpricedModels } from '../services/usageService';
+
+const USAGE = `用法: npm run refine -- <文件或 glob>... [选项]
+
+对每个文件执行「诊断规划 + 全部步骤」，把结果写到同目录的 <名称>.refined<扩展名>，
+运行报告写到 <名称>.refined.json。glob 请加引号，例如 "docs/**/*.md"。
+
+模型设置（优先级：命令行 > 环境变量 > --config 文件）
+  -p, --provider <id>         gemini | openai | anthropic | ollama      DOCREFINE_PROVIDER
+  -m, --model <id>            模型 id，默认为服务商的第一个预设模型      DOCREFINE_MODEL
+      --base-url <url>        OpenAI 兼容或 Ollama 端点                DOCREFINE_BASE_URL
+      --api-key <key>         DOCREFINE_API_KEY，或 GEMINI_API_KEY / OPENAI_API_KEY / ANTHROPIC_API_KEY
+      --temperature <t>       采样温度
+      --max-output-tokens <n> 最大输出 tokens
+      --config <file.json>    AppConfig 形状的 JSON（分阶段模型、分段、重试、价格等）
+
+运行
+  -n, --iterations <n>        规划并执行的轮数，每轮基于上一轮结果重新规划（默认 1）
+      --critic                启用同行评审
+      --guard <mode>          内容保护：warn（默认）| block | off
+      --max-shrink <percent>  篇幅缩减超过该比例视为内容丢失（默认 ${DEFAULT_CONTENT_GUARD.maxShrinkPercent}）
+      --budget <usd>          每个文件的估算费用上限；所用模型须有价格（--config 的 prices）
+      --language <code>       文档语言，默认自动检测
+      --translate-to <code>   同时翻译为该语言
+
+输出
+      --suffix <text>         输出文件名后缀（默认 .refined）；带此后缀的输入文件会被跳过
+      --out-dir <dir>         写到该目录（保留相对路径）而不是源文件旁边
+      --in-place              覆盖源文件，报告仍写到 <名称><后缀>.json
+  -h, --help
+
+出错或被阻止的步骤记录在报告中；任一文件处理失败时退出码为 1。`;
+
+// Formats that need the browser importers; convert them to Markdown first
+const UNSUPPORTED = new Set(['.docx', '.doc', '.pdf']);
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+// Read through an alias: the build replaces literal process.env.GEMINI_API_KEY with the value baked in for the web app
+const env = process.env;
+
+const fail = (message: string): never => {
+  console.error(`错误: ${message}\n\n运行 npm run refine -- --help 查看用法。`);
+  process.exit(2);
+};
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) fail(`${name} 必须是非负数字: ${value}`);
+  return n;
+};
+
+/**
+ * Converts a glob to a regular expression over forward-slash paths: ** spans directories,
+ * * and ? stay within one, {a,b} matches either alternative.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      pattern += '[^/]*';
+    } else if (c === '?') {
+      pattern += '[^/]';
+    } else if (c === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+      i = end;
+    } else {
+      pattern += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) files.push(...await walk(full));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+};
+
+/**
+ * Expands the file arguments. Plain paths are taken as they are; globs are matched by walking
+ * from their longest directory prefix without wildcards.
+ */
+const expandInputs = async (patterns: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+  for (const raw of patterns) {
+    const pattern = raw.split(path.sep).join('/');
+    if (!/[*?{]/.test(pattern)) {
+      const info = await stat(raw).catch(() => null);
+      if (!info?.isFile()) fail(`找不到文件: ${raw}`);
+      files.add(path.normalize(raw));
+      continue;
+    }
+    const parts = pattern.split('/');
+    const firstGlob = parts.findIndex(part => /[*?{]/.test(part));
+    const base = parts.slice(0, firstGlob).join('/') || '.';
+    const matcher = globToRegExp(path.posix.normalize(pattern));
+    const info = await stat(base).catch(() => null);
+    if (!info?.isDirectory()) continue;
+    for (const file of await walk(base)) {
+      if (matcher.test(path.posix.normalize(file.split(path.sep).join('/')))) files.add(file);
+    }
+  }
+  return [...files].sort();
+};
+
+const outputPaths = (source: string, options: { suffix: string; outDir?: string; inPlace: boolean }) => {
+  const { dir, name, ext } = path.parse(source);
+  const targetDir = options.outDir ? path.join(options.outDir, path.relative('.', dir)) : dir;
+  return {
+    output: options.inPlace ? source : path.join(targetDir, `${name}${options.suffix}${ext}`),
+    report: path.join(targetDir, `${name}${options.suffix}.json`)
+  };
+};
+
+/**
+ * Settings file, then environment, then flags. Switching provider without naming a model picks
+ * that provider's first preset, as the settings dialog does.
+ */
+const buildConfig = async (values: Record<string, string | boolean | undefined>): Promise<AppConfig> => {
+  const str = (key: string) => values[key] as string | undefined;
+  const fromFile: Partial<AppConfig> = str('config')
+    ? JSON.parse(await readFile(str('config')!, 'utf8').catch(() => fail(`无法读取配置文件: ${str('config')}`)))
+    : {};
+
+  const provider = (str('provider') || env.DOCREFINE_PROVIDER || fromFile.provider || 'gemini') as LLMProvider;
+  if (!PROVIDERS.some(p => p.id === provider)) fail(`未知的服务商: ${provider}`);
+  const definition = getProvider(provider);
+  // Credentials of other providers are kept per provider, as in the settings dialog
+  const saved = fromFile.provider === provider
+    ? { apiKey: fromFile.apiKey, baseUrl: fromFile.baseUrl }
+    : fromFile.credentials?.[provider] || {};
+  const providerKey = { gemini: env.GEMINI_API_KEY, openai: env.OPENAI_API_KEY, anthropic: env.ANTHROPIC_API_KEY, ollama: undefined }[provider];
+
+  const temperature = parseNumber(str('temperature'), '--temperature');
+  const maxOutputTokens = parseNumber(str('max-output-tokens'), '--max-output-tokens');
+  const maxShrink = parseNumber(str('max-shrink'), '--max-shrink');
+  const guardMode = str('guard');
+  if (guardMode && !['warn', 'block', 'off'].includes(guardMode)) fail(`--guard 只能是 warn、block 或 off: ${guardMode}`);
+  const contentGuard = fromFile.contentGuard || DEFAULT_CONTENT_GUARD;
+
+  return {
+    ...fromFile,
+    provider,
+    model: str('model') || env.DOCREFINE_MODEL || (fromFile.provider === provider && fromFile.model) || definition.models[0]?.id || '',
+    apiKey: str('api-key') || env.DOCREFINE_API_KEY || providerKey || saved.apiKey || '',
+    baseUrl: str('base-url') || env.DOCREFINE_BASE_URL || saved.baseUrl,
+    // Nobody watches the output, so skip the streaming envelope
+    streaming: false,
+    ...(temperature !== undefined && { temperature }),
+    ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+    ...(values.critic && { critic: { ...(fromFile.critic || DEFAULT_CRITIC), enabled: true } }),
+    contentGuard: {
+      mode: (guardMode as ContentGuardPolicy['mode']) || contentGuard.mode,
+      maxShrinkPercent: maxShrink ?? contentGuard.maxShrinkPercent
+    },
+    ...(str('language') && { documentLanguage: str('language') }),
+    ...(str('translate-to') && { translateTo: str('translate-to') })
+  };
+};
+
+const describeEvent = (event: RunEvent): string => {
+  switch (event.type) {
+    case 'plan':
+      return `  第 ${event.iteration} 轮：${event.plan.analysis.category}，计划 ${event.plan.steps.length} 个步骤`;
+    case 'step-start':
+      return `    → ${event.step.name}`;
+    case 'step-done': {
+      const { step } = event;
+      const losses = step.losses ? `（可能丢失：${summarizeLosses(step.losses)}）` : '';
+      return step.error ? `    ✗ ${step.name}：${step.error}` : `    ✓ ${step.name}${losses}`;
+    }
+    case 'retry':
+      return `    … ${event.info.reason}，${Math.round(event.info.delayMs / 1000)} 秒后重试（${event.info.attempt}/${event.info.maxRetries}）`;
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', short: 'p' },
+      model: { type: 'string', short: 'm' },
+      'base-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      temperature: { type: 'string' },
+      'max-output-tokens': { type: 'string' },
+      config: { type: 'string' },
+      iterations: { type: 'string', short: 'n' },
+      critic: { type: 'boolean' },
+      guard: { type: 'string' },
+      'max-shrink': { type: 'string' },
+      budget: { type: 'string' },
+      language: { type: 'string' },
+      'translate-to': { type: 'string' },
+      suffix: { type: 'string', default: '.refined' },
+      'out-dir': { type: 'string' },
+      'in-place': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) fail('请指定要处理的文件或 glob');
+
+  const config = await buildConfig(values);
+  if (!isProviderConfigured(config)) {
+    fail(`${getProvider(config.provider).name} 缺少 API Key 或模型；本地 OpenAI 兼容端点不校验密钥时可传任意值，如 --api-key local`);
+  }
+  const iterations = parseNumber(values.iterations, '--iterations') ?? 1;
+  if (!Number.isInteger(iterations) || iterations < 1) fail('--iterations 必须是正整数');
+  const budgetUsd = parseNumber(values.budget, '--budget');
+  if (budgetUsd !== undefined) {
+    const unpriced = unpricedModels(config, config.critic?.enabled ? ['planning', 'execution', 'critique'] : ['planning', 'execution']);
+    if (unpriced.length) {
+      fail(`--budget 无法生效：模型 ${unpriced.join('、')} 没有价格，请在 --config 文件的 prices 中设置（每百万 tokens 的美元价格）`);
+    }
+  }
+  const suffix = values.suffix!;
+
+  const sources = (await expandInputs(positionals))
+    .filter(file => !path.parse(file).name.endsWith(suffix) && path.extname(file) !== '.json');
+  if (sources.length === 0) fail('没有匹配的文件');
+
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.error('\n正在取消…（再按一次 Ctrl+C 立即退出）');
+    controller.abort();
+  });
+
+  let failures = 0;
+  for (const [i, source] of sources.entries()) {
+    if (controller.signal.aborted) break;
+    console.error(`[${i + 1}/${sources.length}] ${source}`);
+    if (UNSUPPORTED.has(path.extname(source).toLowerCase())) {
+      console.error('  跳过：命令行只处理文本文件，请先转换为 Markdown');
+      failures++;
+      continue;
+    }
+
+    const { output, report: reportPath } = outputPaths(source, { suffix, outDir: values['out-dir'], inPlace: !!values['in-place'] });
+    try {
+      const text = await readFile(source, 'utf8');
+      const { text: refined, report } = await refineDocument(text, config, {
+        iterations,
+        budgetUsd,
+        signal: controller.signal,
+        onEvent: event => console.error(describeEvent(event))
+      });
+      await mkdir(path.dirname(output), { recursive: true });
+      // A run that changed nothing leaves an in-place source untouched
+      if (!(values['in-place'] && refined === text)) {
+        await writeFile(output, refined, 'utf8');
+      }
+      await writeFile(reportPath, JSON.stringify({ ...report, source, output }, null, 2), 'utf8');
+
+      const steps = report.iterations.flatMap(it => it.steps);
+      const done = steps.filter(s => s.status === StepStatus.COMPLETED).length;
+      console.error(`  ${report.inputChars} → ${report.outputChars} 字符，完成 ${done}/${steps.length} 个步骤，估算费用 ${formatCost(report.estimatedCostUsd)}${report.unpriced ? '+（部分模型未定价，未计入）' : ''}`);
+      if (report.stoppedReason) {
+        console.error(`  提前结束（${report.stoppedReason}）${report.error ? `：${report.error}` : ''}`);
+      }
+      if (report.stoppedReason === 'error' || report.stoppedReason === 'cancelled') failures++;
+    } catch (err: any) {
+      console.error(`  失败：${err.message}`);
+      failures++;
+    }
+  }
+
+  process.exitCode = failures > 0 ? 1 : 0;
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
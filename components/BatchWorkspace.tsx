@@ -0,0 +1,483 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Files, X, Upload, Play, Square, Pause, RotateCw, Trash2, Download, Loader2, CheckCircle, AlertCircle, Circle, ChevronDown, ChevronRight, FileWarning, ListChecks } from 'lucide-react';
+import { AgentPlan, AppConfig, BatchItem, BatchPlanMode, StepStatus } from '../types';
+import { analyzeAndPlan } from '../services/geminiService';
+import { refineDocument } from '../services/runService';
+import { importFile, IMPORT_ACCEPT } from '../services/importService';
+import { downloadBlob } from '../services/exportService';
+import { estimateCost, formatCost } from '../services/usageService';
+import { summarizeLosses } from '../services/contentGuard';
+import {
+  BATCH_STATUS_LABELS, MAX_BATCH_CONCURRENCY, buildBatchZip, createBatchItem, progressFromEvent, requeueItem, statusAfterRun
+} from '../services/batchService';
+
+interface BatchWorkspaceProps {
+  isOpen: boolean; // Kept mounted while closed so that a running batch carries on
+  onClose: () => void;
+  config: AppConfig;
+  isConfigured: boolean;
+  onOpenSettings: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  running: 'bg-blue-50 text-accent',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-600',
+  cancelled: 'bg-amber-50 text-amber-700'
+};
+
+/**
+ * Many documents refined in one go: each is planned on its own or runs a plan shared by the batch,
+ * and a queue processes a limited number at a time. Finished results are exported as one zip.
+ */
+export const BatchWorkspace: React.FC<BatchWorkspaceProps> = ({ isOpen, onClose, config, isConfigured, onOpenSettings }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [planMode, setPlanMode] = useState<BatchPlanMode>('individual');
+  const [sharedPlan, setSharedPlan] = useState<AgentPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [iterations, setIterations] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // One controller per running document, plus one for planning the shared plan
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const planControllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = (id: string, changes: Partial<BatchItem> | ((item: BatchItem) => Partial<BatchItem>)) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...(typeof changes === 'function' ? changes(item) : changes) } : item));
+  };
+
+  const runItem = async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    const { text, report } = await refineDocument(item.text, config, {
+      iterations,
+      plan: planMode === 'shared' ? sharedPlan || undefined : undefined,
+      signal: controller.signal,
+      onEvent: event => updateItem(item.id, current => progressFromEvent(current, event))
+    });
+    controllersRef.current.delete(item.id);
+    const status = statusAfterRun(report);
+    updateItem(item.id, { status, report, output: status === 'done' ? text : undefined, currentStep: undefined, error: report.error });
+  };
+
+  // The queue: start queued documents while there are free slots, and stop once nothing is left
+  useEffect(() => {
+    if (!isRunning) return;
+    const running = items.filter(item => item.status === 'running').length;
+    const queued = items.filter(item => item.status === 'queued' && !controllersRef.current.has(item.id));
+    if (running === 0 && queued.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+    queued.slice(0, Math.max(0, concurrency - running)).forEach(item => {
+      updateItem(item.id, { status: 'running' });
+      runItem(item);
+    });
+  }, [items, isRunning, concurrency]);
+
+  const handleFiles = async (files: FileList | File[]) => {
+    setIsImporting(true);
+    setError(null);
+    const failed: string[] = [];
+    const added: BatchItem[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const result = await importFile(file);
+        if (result.text.trim()) added.push(createBatchItem(file.name, result.text, result.warnings));
+        else failed.push(`${file.name}（内容为空）`);
+      } catch (err: any) {
+        failed.push(`${file.name}（${err.message || '无法读取'}）`);
+      }
+    }
+    setItems(prev => [...prev, ...added]);
+    if (failed.length) setError(`以下文件未能导入：${failed.join('、')}`);
+    setIsImporting(false);
+  };
+
+  /**
+   * Starts the queue. A shared plan is made from the first queued document before anything runs.
+   */
+  const handleStart = async (queue: BatchItem[] = items) => {
+    if (!isConfigured) {
+      onOpenSettings();
+      return;
+    }
+    setError(null);
+    if (planMode === 'shared' && !sharedPlan) {
+      const first = queue.find(item => item.status === 'queued');
+      if (!first) return;
+      const controller = new AbortController();
+      planControllerRef.current = controller;
+      setIsPlanning(true);
+      try {
+        setSharedPlan(await analyzeAndPlan(first.text, config, { signal: controller.signal }));
+      } catch (err: any) {
+        if (!controller.signal.aborted) setError(`共享计划生成失败：${err.message}`);
+        return;
+      } finally {
+        setIsPlanning(false);
+        planControllerRef.current = null;
+      }
+    }
+    setIsRunning(true);
+  };
+
+  const handleCancelAll = () => {
+    planControllerRef.current?.abort();
+    controllersRef.current.forEach(controller => controller.abort());
+    setItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    setIsRunning(false);
+  };
+
+  const handleCancelItem = (item: BatchItem) => {
+    if (item.status === 'running') controllersRef.current.get(item.id)?.abort();
+    else updateItem(item.id, { status: 'cancelled' });
+  };
+
+  const handleRetry = (retried: BatchItem[]) => {
+    const ids = new Set(retried.map(item => item.id));
+    const next = items.map(item => ids.has(item.id) ? requeueItem(item) : item);
+    setItems(next);
+    if (!isRunning) handleStart(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await buildBatchZip(items.filter(item => item.report));
+      downloadBlob(blob, `docrefine-batch-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err: any) {
+      setError(err.message || '导出失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const counts = {
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    active: items.filter(item => item.status === 'running' || item.status === 'queued').length
+  };
+  const { cost: totalCost, unpriced } = estimateCost([
+    ...(sharedPlan?.usage ? [sharedPlan.usage] : []),
+    ...items.flatMap(item => item.report?.usage || [])
+  ], config.prices);
+  const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const isBusy = isRunning || isPlanning;
+
+  return (
+    <div className={`fixed inset-0 z-40 bg-slate-50 flex flex-col ${isOpen ? '' : 'hidden'}`}>
+      <div className="h-16 px-6 bg-white border-b border-slate-200 flex items-center justify-between shrink-0">
+        <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <Files className="w-5 h-5 text-accent" />
+          批量处理
+          {items.length > 0 && (
+            <span className="text-sm font-normal text-slate-400">
+              · 完成 {counts.done}/{items.length}{counts.failed > 0 && `，失败 ${counts.failed}`} · 估算费用 {formatCost(totalCost)}{unpriced && '+'}
+            </span>
+          )}
+        </h2>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100" title={isBusy ? '关闭后批量任务继续在后台运行' : '关闭'}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-hidden flex">
+        {/* Settings */}
+        <div className="w-80 bg-white border-r border-slate-200 p-5 space-y-5 overflow-y-auto shrink-0">
+          <label
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+            className={`flex flex-col items-center justify-center gap-2 h-32 border-2 border-dashed rounded-lg cursor-pointer transition-colors text-sm ${
+              isDragging ? 'border-accent bg-blue-50 text-accent' : 'border-slate-300 text-slate-500 hover:border-slate-400'
+            }`}
+          >
+            {isImporting ? <Loader2 className="w-6 h-6 animate-spin" /> : <Upload className="w-6 h-6" />}
+            {isImporting ? '正在导入…' : '拖入或选择多个文件'}
+            <span className="text-[10px] text-slate-400">Markdown、文本、Word、PDF、HTML</span>
+            <input
+              type="file"
+              multiple
+              accept={IMPORT_ACCEPT}
+              onChange={(e) => { if (e.target.files) handleFiles(e.target.files); e.target.value = ''; }}
+              className="hidden"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <span className="block text-xs font-medium text-slate-600">优化计划</span>
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {([
+                { mode: 'individual', label: '逐个规划' },
+                { mode: 'shared', label: '共享计划' }
+              ] as const).map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => setPlanMode(mode)}
+                  disabled={isBusy}
+                  className={`flex-1 py-1 text-xs rounded-md transition-all disabled:cursor-not-allowed ${
+                    planMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400">
+              {planMode === 'shared'
+                ? '用第一份文档生成一份计划，所有文档按同样的步骤处理，适合同类文档，节省规划费用。'
+                : '每份文档单独诊断并制定计划。'}
+            </p>
+            {planMode === 'shared' && sharedPlan && (
+              <div className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-slate-600 flex items-center gap-1">
+                    <ListChecks className="w-3.5 h-3.5" />
+                    {sharedPlan.analysis.category} · {sharedPlan.steps.length} 个步骤
+                  </span>
+                  <button
+                    onClick={() => setSharedPlan(null)}
+                    disabled={isBusy}
+                    className="text-[10px] text-slate-400 hover:text-accent disabled:opacity-50"
+                    title="下次开始时重新生成共享计划"
+                  >
+                    重新规划
+                  </button>
+                </div>
+                <ol className="list-decimal pl-4 text-slate-500 space-y-0.5">
+                  {sharedPlan.steps.map(step => <li key={step.id}>{step.name}</li>)}
+                </ol>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-slate-600">同时处理</span>
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:border-accent"
+              >
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n} 份文档</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-slate-600">迭代轮数</span>
+              <select
+                value={iterations}
+                onChange={(e) => setIterations(Number(e.target.value))}
+                disabled={isBusy}
+                className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:border-accent disabled:opacity-60"
+              >
+                {[1, 2, 3].map(n => <option key={n} value={n}>{n} 轮</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            模型调用另受设置中的并发与速率限制约束。步骤不暂停审阅；内容保护与同行评审按设置生效。
+          </p>
+
+          <div className="space-y-2">
+            {isBusy ? (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsRunning(false)}
+                  disabled={!isRunning}
+                  className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  title="处理中的文档会继续完成，不再启动新文档"
+                >
+                  <Pause className="w-3.5 h-3.5" />
+                  停止排队
+                </button>
+                <button
+                  onClick={handleCancelAll}
+                  className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-white border border-red-200 hover:bg-red-50 text-red-600 text-xs font-medium rounded-lg transition-colors"
+                >
+                  <Square className="w-3 h-3 fill-current" />
+                  全部取消
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => handleStart()}
+                disabled={!items.some(item => item.status === 'queued')}
+                className="w-full flex items-center justify-center gap-2 py-2 bg-slate-900 hover:bg-slate-800 text-white text-xs font-bold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-3.5 h-3.5 fill-current" />
+                开始处理（{items.filter(item => item.status === 'queued').length} 份排队中）
+              </button>
+            )}
+            {isPlanning && (
+              <p className="text-xs text-accent flex items-center gap-1.5 animate-pulse">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                正在为批量任务生成共享计划…
+              </p>
+            )}
+            {retryable.length > 0 && (
+              <button
+                onClick={() => handleRetry(retryable)}
+                className="w-full flex items-center justify-center gap-1.5 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-600 text-xs font-medium rounded-lg transition-colors"
+              >
+                <RotateCw className="w-3.5 h-3.5" />
+                重试失败与已取消的 {retryable.length} 份
+              </button>
+            )}
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !items.some(item => item.report)}
+              className="w-full flex items-center justify-center gap-1.5 py-1.5 text-white bg-accent hover:bg-blue-600 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="打包所有已处理文档的优化结果、修改摘要与运行报告"
+            >
+              {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+              导出 ZIP
+            </button>
+            {!isBusy && items.some(item => item.status !== 'running') && (
+              <button
+                onClick={() => setItems(prev => prev.filter(item => item.status === 'running'))}
+                className="w-full text-[10px] text-slate-400 hover:text-red-500 transition-colors"
+              >
+                清空列表
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-xs bg-red-50 text-red-700 p-2 rounded-lg border border-red-100 flex items-start gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Queue */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {items.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-2">
+              <Files className="w-10 h-10" />
+              <p className="text-sm">添加文档后，按队列逐份完成诊断、规划与全部优化步骤。</p>
+            </div>
+          ) : (
+            <div className="max-w-4xl mx-auto space-y-2">
+              {items.map(item => {
+                const steps = item.report?.iterations.flatMap(it => it.steps) || [];
+                const failedSteps = steps.filter(s => s.status === StepStatus.FAILED).length;
+                const lossSteps = steps.filter(s => s.losses).length;
+                const isExpanded = expandedId === item.id;
+                return (
+                  <div key={item.id} className="bg-white rounded-lg border border-slate-200 shadow-sm">
+                    <div className="p-3 flex items-center gap-3">
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                        disabled={!item.report}
+                        className="text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </button>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-slate-700 truncate" title={item.fileName}>{item.fileName}</span>
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_STYLES[item.status]}`}>{BATCH_STATUS_LABELS[item.status]}</span>
+                          {item.attempts > 1 && <span className="text-[10px] text-slate-400">第 {item.attempts} 次</span>}
+                        </div>
+                        {item.stepsTotal > 0 && (
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full transition-all ${item.status === 'failed' ? 'bg-red-400' : 'bg-accent'}`}
+                                style={{ width: `${Math.round(item.stepsDone / item.stepsTotal * 100)}%` }}
+                              />
+                            </div>
+                            <span className="text-[10px] text-slate-400 shrink-0">{item.stepsDone}/{item.stepsTotal} 步</span>
+                          </div>
+                        )}
+                        <div className="text-[10px] text-slate-400 flex flex-wrap gap-x-3">
+                          {item.status === 'running' && (
+                            <span className="text-accent flex items-center gap-1">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              {item.currentStep || (item.stepsTotal === 0 ? '诊断与规划中' : '处理中')}
+                            </span>
+                          )}
+                          {item.retries > 0 && <span className="text-amber-600">重试 {item.retries} 次{item.lastRetry && `（${item.lastRetry}）`}</span>}
+                          {failedSteps > 0 && <span className="text-red-500">{failedSteps} 个步骤失败</span>}
+                          {lossSteps > 0 && <span className="text-amber-600">{lossSteps} 个步骤可能丢失内容</span>}
+                          {item.report && <span>{item.report.inputChars} → {item.report.outputChars} 字符 · {formatCost(item.report.estimatedCostUsd)}{item.report.unpriced && '+'}</span>}
+                          {item.warnings.length > 0 && <span>{item.warnings.join('，')}</span>}
+                        </div>
+                        {item.error && item.status !== 'running' && <p className="text-xs text-red-600">{item.error}</p>}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {(item.status === 'running' || item.status === 'queued') ? (
+                          <button onClick={() => handleCancelItem(item)} className="p-1.5 text-slate-400 hover:text-red-500 rounded" title="取消">
+                            <Square className="w-3.5 h-3.5" />
+                          </button>
+                        ) : (
+                          <>
+                            <button onClick={() => handleRetry([item])} className="p-1.5 text-slate-400 hover:text-accent rounded" title="重新处理">
+                              <RotateCw className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                              className="p-1.5 text-slate-400 hover:text-red-500 rounded"
+                              title="移除"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {isExpanded && item.report && (
+                      <div className="border-t border-slate-100 px-10 py-3 space-y-3">
+                        {item.report.iterations.map(iteration => (
+                          <div key={iteration.iteration} className="space-y-1.5">
+                            <span className="text-xs font-medium text-slate-500">
+                              第 {iteration.iteration} 轮 · {iteration.analysis.category}
+                            </span>
+                            {iteration.steps.map(step => (
+                              <div key={step.id} className="text-xs flex items-start gap-2">
+                                {step.status === StepStatus.COMPLETED ? (
+                                  <CheckCircle className="w-3.5 h-3.5 text-green-500 shrink-0 mt-px" />
+                                ) : step.status === StepStatus.FAILED ? (
+                                  <AlertCircle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-px" />
+                                ) : (
+                                  <Circle className="w-3.5 h-3.5 text-slate-300 shrink-0 mt-px" />
+                                )}
+                                <div className="min-w-0">
+                                  <span className="font-medium text-slate-700">{step.name}</span>
+                                  {step.diffSummary && <p className="text-slate-500">{step.diffSummary}</p>}
+                                  {step.error && <p className="text-red-600">{step.error}</p>}
+                                  {step.losses && !step.error && (
+                                    <p className="text-amber-600 flex items-center gap-1">
+                                      <FileWarning className="w-3 h-3" />
+                                      可能丢失：{summarizeLosses(step.losses)}
+                                    </p>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, Check, GitMerge, Eye, GitCompare, ShieldCheck, ShieldAlert, AlertCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { AppConfig, CandidateChoice, StepCandidate } from '../types';
+import { diffTexts, summarizeDiff } from '../services/diffService';
+import { describeVariant } from '../services/candidateService';
+import { UnchangedText } from './HunkReview';
+
+interface CandidatePickerProps {
+  stepName: string;
+  baseText: string;
+  candidates: StepCandidate[];
+  failures: string[]; // Candidates that could not be generated, already described
+  config: AppConfig;
+  onChoose: (choice: CandidateChoice) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Best-of-N candidates of one step side by side. The user keeps one, or ticks several to have the
+ * model merge them; the chosen result then goes through the normal review gate.
+ */
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ stepName, baseText, candidates, failures, config, onChoose, onDiscard }) => {
+  const [viewMode, setViewMode] = useState<'diff' | 'preview'>('diff');
+  const [selected, setSelected] = useState<Set<number>>(() => new Set());
+
+  const diffs = useMemo(
+    () => candidates.map(c => diffTexts(baseText, c.revisedText, 'sentence')),
+    [baseText, candidates]
+  );
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-slate-50 overflow-hidden">
+      <div className="h-16 px-6 bg-white border-b border-slate-200 flex items-center justify-between shrink-0">
+        <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2 min-w-0">
+          <Layers className="w-5 h-5 text-accent" />
+          <span className="truncate">选择候选：{stepName}</span>
+        </h2>
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex bg-slate-100 p-1 rounded-lg mr-2">
+            {([
+              { mode: 'diff', label: '差异', icon: GitCompare },
+              { mode: 'preview', label: '全文', icon: Eye }
+            ] as const).map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`flex items-center gap-1 px-2.5 py-1 text-xs rounded-md transition-all ${
+                  viewMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onDiscard}
+            className="px-3 py-1.5 text-sm text-slate-600 bg-white border border-slate-300 hover:bg-slate-50 rounded-md transition-colors"
+          >
+            全部放弃
+          </button>
+          <button
+            onClick={() => onChoose({ kind: 'merge', indices: [...selected].sort((a, b) => a - b) })}
+            disabled={selected.size < 2}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-accent hover:bg-blue-600 rounded-md shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="勾选两个或以上候选后，由模型取长补短合并为一个版本"
+          >
+            <GitMerge className="w-4 h-4" />
+            合并所选（{selected.size}）
+          </button>
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mx-6 mt-4 text-xs bg-red-50 text-red-700 p-3 rounded-lg border border-red-100 space-y-0.5">
+          {failures.map((f, i) => (
+            <p key={i} className="flex items-start gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              {f}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden p-6">
+        <div
+          className="h-full grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))` }}
+        >
+          {candidates.map((candidate, i) => {
+            const stats = summarizeDiff(diffs[i]);
+            const verdict = candidate.critiques?.[candidate.critiques.length - 1];
+            const isSelected = selected.has(i);
+            return (
+              <div
+                key={i}
+                className={`flex flex-col min-h-0 bg-white rounded-lg shadow-sm border transition-colors ${
+                  isSelected ? 'border-accent' : 'border-slate-200'
+                }`}
+              >
+                <div className="p-3 border-b border-slate-100 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-slate-700">候选 {i + 1}</span>
+                    <span className="text-[10px] font-mono text-slate-400 truncate">{describeVariant(candidate.variant, config)}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-[10px] text-slate-400">
+                    <span>{baseText.length} → {candidate.revisedText.length} 字符</span>
+                    <span className="text-green-600">+{stats.added}</span>
+                    <span className="text-red-500">-{stats.removed}</span>
+                    {verdict && (
+                      <span className={`flex items-center gap-0.5 ${verdict.approved ? 'text-violet-600' : 'text-red-500'}`}>
+                        {verdict.approved ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                        {verdict.approved ? '评审通过' : '评审未通过'}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs bg-green-50 text-green-700 p-2 rounded border border-green-100 max-h-24 overflow-y-auto">
+                    {candidate.diffSummary}
+                  </p>
+                  <div className="flex gap-2">
+                    <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggle(i)}
+                        className="w-3.5 h-3.5 text-accent border-slate-300 rounded focus:ring-accent"
+                      />
+                      参与合并
+                    </label>
+                    <button
+                      onClick={() => onChoose({ kind: 'pick', index: i })}
+                      className="ml-auto flex items-center gap-1 px-2.5 py-1 text-xs text-white bg-slate-900 hover:bg-slate-800 rounded transition-colors"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                      选用此候选
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                  {viewMode === 'preview' ? (
+                    <article className="prose prose-sm prose-slate max-w-none prose-headings:font-semibold prose-a:text-accent prose-pre:bg-slate-800 prose-pre:text-slate-100">
+                      <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                        {candidate.revisedText}
+                      </ReactMarkdown>
+                    </article>
+                  ) : (
+                    <div className="font-mono text-xs leading-relaxed text-slate-700 whitespace-pre-wrap break-words">
+                      {diffs[i].map((seg, k) => {
+                        if (seg.type === 'insert') {
+                          return <ins key={k} className="bg-green-100 text-green-800 no-underline rounded-sm">{seg.text}</ins>;
+                        }
+                        if (seg.type === 'delete') {
+                          return <del key={k} className="bg-red-100 text-red-700 line-through rounded-sm">{seg.text}</del>;
+                        }
+                        return <UnchangedText key={k} text={seg.text} />;
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
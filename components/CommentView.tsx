@@ -0,0 +1,182 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Check, CheckCheck, X, RotateCcw, MessageSquare, MapPinOff } from 'lucide-react';
+import { ReviewComment } from '../types';
+import { getSeverity, locateComment } from '../services/commentService';
+
+interface CommentViewProps {
+  text: string;
+  comments: ReviewComment[];
+  onApply?: (comment: ReviewComment) => void; // Omitted while the document must not change
+  onStatusChange: (commentId: string, status: ReviewComment['status']) => void;
+}
+
+const STATUS_LABELS: Record<Exclude<ReviewComment['status'], 'open'>, string> = {
+  applied: '已采纳',
+  resolved: '已解决',
+  dismissed: '已忽略'
+};
+
+/**
+ * The document source with review comments as margin annotations. Open comments are highlighted
+ * where their quote currently is; selecting a comment or its highlight brings the other into view.
+ */
+export const CommentView: React.FC<CommentViewProps> = ({ text, comments, onApply, onStatusChange }) => {
+  const [showAll, setShowAll] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Located against the current text, numbered in document order; unlocated comments come last
+  const located = useMemo(() => comments
+    .map(comment => ({ comment, span: locateComment(text, comment) }))
+    .sort((a, b) => (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity))
+    .map((entry, i) => ({ ...entry, number: i + 1 })),
+    [text, comments]
+  );
+  const visible = located.filter(({ comment }) => showAll || comment.status === 'open');
+  const openCount = comments.filter(c => c.status === 'open').length;
+
+  // Highlights of open comments, dropping any that overlap an earlier one
+  const pieces = useMemo(() => {
+    const result: { text: string; commentId?: string; number?: number; severity?: ReviewComment['severity'] }[] = [];
+    let cursor = 0;
+    for (const { comment, span, number } of located) {
+      if (!span || comment.status !== 'open' || span.start < cursor) continue;
+      result.push({ text: text.slice(cursor, span.start) });
+      result.push({ text: text.slice(span.start, span.end), commentId: comment.id, number, severity: comment.severity });
+      cursor = span.end;
+    }
+    result.push({ text: text.slice(cursor) });
+    return result;
+  }, [text, located]);
+
+  const select = (commentId: string, scrollTarget: 'text' | 'list') => {
+    setSelectedId(commentId);
+    const container = scrollTarget === 'text' ? textRef.current : listRef.current;
+    container?.querySelector(`[data-comment-id="${commentId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  if (comments.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-slate-400 gap-2">
+        <MessageSquare className="w-8 h-8" />
+        <p className="text-sm">暂无批注。在左侧切换到“批注建议”模式并执行步骤后，批注将显示在这里。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden grid grid-cols-[minmax(0,1fr)_22rem] divide-x divide-slate-100">
+      <div ref={textRef} className="overflow-y-auto p-6">
+        <div className="font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap break-words">
+          {pieces.map((piece, i) => piece.commentId ? (
+            <mark
+              key={i}
+              data-comment-id={piece.commentId}
+              onClick={() => select(piece.commentId!, 'list')}
+              className={`cursor-pointer rounded-sm px-0.5 border-b-2 ${
+                selectedId === piece.commentId ? 'bg-amber-200 border-amber-500' : 'bg-amber-50 border-amber-300 hover:bg-amber-100'
+              } text-inherit`}
+            >
+              {piece.text}
+              <sup className={`ml-0.5 px-1 rounded text-[9px] font-sans border ${getSeverity(piece.severity!).className}`}>{piece.number}</sup>
+            </mark>
+          ) : (
+            <span key={i}>{piece.text}</span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col min-h-0 bg-slate-50/50">
+        <div className="px-4 py-2 border-b border-slate-100 flex items-center justify-between text-xs shrink-0">
+          <span className="text-slate-500">{openCount} 条待处理 / 共 {comments.length} 条</span>
+          <label className="flex items-center gap-1.5 text-slate-500 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="w-3.5 h-3.5 text-accent border-slate-300 rounded focus:ring-accent"
+            />
+            显示已处理
+          </label>
+        </div>
+        <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-2">
+          {visible.length === 0 && <p className="text-xs text-slate-400 text-center py-6">所有批注均已处理</p>}
+          {visible.map(({ comment, span, number }) => {
+            const severity = getSeverity(comment.severity);
+            const isOpen = comment.status === 'open';
+            return (
+              <div
+                key={comment.id}
+                data-comment-id={comment.id}
+                onClick={() => span && isOpen && select(comment.id, 'text')}
+                className={`p-3 bg-white rounded-lg border text-xs space-y-2 transition-colors ${
+                  selectedId === comment.id ? 'border-accent shadow-sm' : 'border-slate-200'
+                } ${span && isOpen ? 'cursor-pointer' : ''} ${isOpen ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-center gap-1.5">
+                  <span className="text-slate-400 font-mono">#{number}</span>
+                  <span className={`px-1.5 py-0.5 rounded border text-[10px] ${severity.className}`}>{severity.name}</span>
+                  {!span && (
+                    <span className="flex items-center gap-0.5 text-[10px] text-slate-400" title="引用的原文已不在当前文档中">
+                      <MapPinOff className="w-3 h-3" />
+                      未定位
+                    </span>
+                  )}
+                  {!isOpen && <span className="ml-auto text-[10px] text-slate-400">{STATUS_LABELS[comment.status]}</span>}
+                </div>
+                <p className="text-slate-400 border-l-2 border-slate-200 pl-2 line-clamp-2">{comment.quote}</p>
+                <p className="text-slate-700">{comment.issue}</p>
+                {comment.suggestion !== undefined && (
+                  <p className="bg-green-50 text-green-700 p-2 rounded border border-green-100 whitespace-pre-wrap">
+                    → {comment.suggestion}
+                  </p>
+                )}
+                <div className="flex gap-1.5" onClick={(e) => e.stopPropagation()}>
+                  {isOpen ? (
+                    <>
+                      {comment.suggestion !== undefined && (
+                        <button
+                          onClick={() => onApply?.(comment)}
+                          disabled={!onApply || !span}
+                          className="flex items-center gap-1 px-2 py-1 text-white bg-accent hover:bg-blue-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="用建议替换引用的原文，并记为新版本"
+                        >
+                          <Check className="w-3 h-3" />
+                          采纳
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onStatusChange(comment.id, 'resolved')}
+                        className="flex items-center gap-1 px-2 py-1 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded transition-colors"
+                        title="已自行处理"
+                      >
+                        <CheckCheck className="w-3 h-3" />
+                        已解决
+                      </button>
+                      <button
+                        onClick={() => onStatusChange(comment.id, 'dismissed')}
+                        className="flex items-center gap-1 px-2 py-1 text-slate-500 bg-white border border-slate-200 hover:bg-slate-50 rounded transition-colors"
+                      >
+                        <X className="w-3 h-3" />
+                        忽略
+                      </button>
+                    </>
+                  ) : comment.status !== 'applied' && (
+                    <button
+                      onClick={() => onStatusChange(comment.id, 'open')}
+                      className="flex items-center gap-1 px-2 py-1 text-slate-500 hover:text-accent transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      重新打开
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
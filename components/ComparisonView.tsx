@@ -1,31 +1,172 @@
-import React from 'react';
-import { Copy, Download, FileText } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useDeferredValue } from 'react';
+import { Copy, Download, FileText, Eye, GitCompare, Columns2, Loader2, ChevronDown, FileType, Globe, Printer, FileCode, PenLine, Save, MessageSquare } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import { DiffGranularity, DiffSegment, DocumentVersion, ReviewComment } from '../types';
+import { diffTexts, summarizeDiff } from '../services/diffService';
+import { deriveFileName, exportDocument, ExportFormat } from '../services/exportService';
+import { CommentView } from './CommentView';
 
 interface ComparisonViewProps {
   currentText: string;
+  language: string; // Language code of the current text, for tagging exports
+  originalText: string;
+  lineage: DocumentVersion[];
   stepName?: string;
+  streamingText?: string | null; // Partial output of the running step, shown live while it streams
+  onSaveEdit?: (text: string, note: string) => void; // Omitted while the document must not change, e.g. during a step
+  onDirtyChange?: (dirty: boolean) => void; // Whether the editor holds unsaved changes
+  comments: ReviewComment[];
+  onApplyComment?: (comment: ReviewComment) => void; // Omitted while the document must not change
+  onCommentStatus: (commentId: string, status: ReviewComment['status']) => void;
 }
 
-export const ComparisonView: React.FC<ComparisonViewProps> = ({ currentText, stepName }) => {
-  
+type ViewMode = 'preview' | 'inline' | 'split' | 'edit' | 'comments';
+
+// 'original' compares the source document with the current text; otherwise a version id.
+type CompareTarget = 'original' | string;
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string; icon: React.ElementType }[] = [
+  { format: 'docx', label: 'Word 文档', hint: '.docx，标题、表格与公式可编辑', icon: FileType },
+  { format: 'html', label: '网页', hint: '.html，单文件，公式样式已内嵌', icon: Globe },
+  { format: 'pdf', label: 'PDF', hint: '打开打印对话框，选择“另存为 PDF”', icon: Printer },
+  { format: 'markdown', label: 'Markdown', hint: '.md，原始文本', icon: FileCode }
+];
+
+const DiffText: React.FC<{ segments: DiffSegment[]; show: DiffSegment['type'][] }> = ({ segments, show }) => (
+  <div className="font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap break-words">
+    {segments.filter(seg => show.includes(seg.type)).map((seg, i) => {
+      if (seg.type === 'insert') {
+        return <ins key={i} className="bg-green-100 text-green-800 no-underline rounded-sm">{seg.text}</ins>;
+      }
+      if (seg.type === 'delete') {
+        return <del key={i} className="bg-red-100 text-red-700 line-through rounded-sm">{seg.text}</del>;
+      }
+      return <span key={i}>{seg.text}</span>;
+    })}
+  </div>
+);
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ currentText, language, originalText, lineage, stepName, streamingText, onSaveEdit, onDirtyChange, comments, onApplyComment, onCommentStatus }) => {
+  const [selectedMode, setSelectedMode] = useState<ViewMode>('preview');
+  const [granularity, setGranularity] = useState<DiffGranularity>('word');
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>('original');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Manual editing: the source being edited, and the text it started from
+  const [draft, setDraft] = useState('');
+  const [editBase, setEditBase] = useState('');
+  const [editNote, setEditNote] = useState('');
+  const deferredDraft = useDeferredValue(draft);
+
+  // The editor is only available while edits can be saved
+  const viewMode: ViewMode = selectedMode === 'edit' && !onSaveEdit ? 'preview' : selectedMode;
+  const isDirty = viewMode === 'edit' && draft !== editBase;
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty]);
+  useEffect(() => () => onDirtyChange?.(false), []);
+
+  // Follow the document (e.g. a restored version) while the editor holds no changes of its own
+  useEffect(() => {
+    if (!isDirty) {
+      setDraft(currentText);
+      setEditBase(currentText);
+    }
+  }, [currentText]);
+
+  const setViewMode = (mode: ViewMode) => {
+    if (isDirty && mode !== 'edit' && !window.confirm('放弃尚未保存的手动修改吗？')) return;
+    if (mode === 'edit' && viewMode !== 'edit') {
+      setDraft(currentText);
+      setEditBase(currentText);
+      setEditNote('');
+    }
+    setSelectedMode(mode);
+  };
+
+  const handleSaveEdit = () => {
+    if (!onSaveEdit || !isDirty) return;
+    onSaveEdit(draft, editNote.trim());
+    setEditBase(draft);
+    setSelectedMode('preview');
+  };
+
+  const openCommentCount = comments.filter(c => c.status === 'open').length;
+
+  const isStreaming = streamingText !== null && streamingText !== undefined;
+  const previewText = isStreaming ? streamingText : currentText;
+
+  // Resolve the pair of texts to compare. A version is compared against the one before it on the current branch.
+  const [beforeText, afterText] = useMemo(() => {
+    const index = lineage.findIndex(v => v.id === compareTarget);
+    if (index < 1) {
+      return [originalText, currentText];
+    }
+    return [lineage[index - 1].text, lineage[index].text];
+  }, [compareTarget, lineage, originalText, currentText]);
+
+  // Diffing a long document takes a moment, so it runs after the frame that shows the loading state
+  const [diff, setDiff] = useState<{ before: string; after: string; granularity: DiffGranularity; segments: DiffSegment[] } | null>(null);
+  const showsDiff = viewMode === 'inline' || viewMode === 'split';
+  const segments = diff && diff.before === beforeText && diff.after === afterText && diff.granularity === granularity
+    ? diff.segments
+    : null;
+  useEffect(() => {
+    if (!showsDiff || segments) return;
+    const timer = setTimeout(() => setDiff({
+      before: beforeText,
+      after: afterText,
+      granularity,
+      segments: diffTexts(beforeText, afterText, granularity)
+    }), 0);
+    return () => clearTimeout(timer);
+  }, [showsDiff, segments, beforeText, afterText, granularity]);
+  const stats = segments ? summarizeDiff(segments) : null;
+
   const handleCopy = () => {
     navigator.clipboard.writeText(currentText);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([currentText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'refined_document.md';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+  const toggleExportMenu = () => {
+    if (!isExportOpen) {
+      setFileName(deriveFileName(currentText));
+      setExportError(null);
+    }
+    setIsExportOpen(!isExportOpen);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    setExportError(null);
+    try {
+      await exportDocument(currentText, format, fileName, language);
+      setIsExportOpen(false);
+    } catch (err: any) {
+      setExportError(err.message || '导出失败');
+    } finally {
+      setExportingFormat(null);
+    }
   };
 
+  const modeButton = (mode: ViewMode, label: string, Icon: React.ElementType) => (
+    <button
+      onClick={() => setViewMode(mode)}
+      className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded transition-colors ${
+        viewMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+      }`}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      {label}
+    </button>
+  );
+
   return (
     <div className="flex-1 flex flex-col h-full bg-slate-50 overflow-hidden">
       <div className="h-16 px-6 bg-white border-b border-slate-200 flex items-center justify-between shrink-0">
@@ -34,47 +175,235 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({ currentText, ste
             {stepName ? `当前阶段：${stepName}` : '文档预览'}
           </h2>
         </div>
-        <div className="flex gap-2">
-          <button 
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-md mr-2">
+            {modeButton('preview', '预览', Eye)}
+            {modeButton('inline', '行内对比', GitCompare)}
+            {modeButton('split', '并排对比', Columns2)}
+            {onSaveEdit && modeButton('edit', '编辑', PenLine)}
+            {comments.length > 0 && modeButton('comments', `批注 ${openCommentCount}`, MessageSquare)}
+          </div>
+          <button
             onClick={handleCopy}
             className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
           >
             <Copy className="w-4 h-4" />
             复制
           </button>
-          <button 
-            onClick={handleDownload}
-            className="flex items-center gap-2 px-3 py-1.5 text-sm text-white bg-slate-800 hover:bg-slate-900 rounded-md transition-colors"
-          >
-            <Download className="w-4 h-4" />
-            导出
-          </button>
+          <div className="relative">
+            <button
+              onClick={toggleExportMenu}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-white bg-slate-800 hover:bg-slate-900 rounded-md transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              导出
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            {isExportOpen && (
+              <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-lg shadow-lg border border-slate-200 z-20 p-3 space-y-2">
+                <label className="block text-xs font-medium text-slate-600">
+                  文件名
+                  <input
+                    value={fileName}
+                    onChange={(e) => setFileName(e.target.value)}
+                    className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-normal focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none"
+                  />
+                </label>
+                <div className="space-y-1">
+                  {EXPORT_OPTIONS.map(({ format, label, hint, icon: Icon }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={exportingFormat !== null}
+                      className="w-full flex items-start gap-2.5 px-2 py-2 rounded-md text-left hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {exportingFormat === format ? (
+                        <Loader2 className="w-4 h-4 mt-0.5 text-accent animate-spin" />
+                      ) : (
+                        <Icon className="w-4 h-4 mt-0.5 text-slate-500" />
+                      )}
+                      <span>
+                        <span className="block text-sm text-slate-700">{label}</span>
+                        <span className="block text-[11px] text-slate-400">{hint}</span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                {exportError && <p className="text-xs text-red-500">{exportError}</p>}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       <div className="flex-1 overflow-hidden p-6">
         <div className="h-full bg-white rounded-lg shadow-sm border border-slate-200 flex flex-col">
-            <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex items-center justify-between shrink-0">
-               <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
-                 <FileText className="w-4 h-4" />
-                 文档内容
-               </span>
-               <span className="text-xs text-slate-400">
-                  {currentText.length} 字符
+            <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex items-center justify-between shrink-0 gap-4">
+               {viewMode === 'edit' ? (
+                 <div className="flex items-center gap-2 flex-1 min-w-0">
+                   <input
+                     value={editNote}
+                     onChange={(e) => setEditNote(e.target.value)}
+                     placeholder="修改说明（选填，记入版本历史）"
+                     className="flex-1 min-w-0 text-xs border border-slate-200 rounded px-2 py-1 bg-white text-slate-700 focus:outline-none focus:border-accent"
+                   />
+                   <button
+                     onClick={() => setViewMode('preview')}
+                     className="px-2.5 py-1 text-xs text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded transition-colors"
+                   >
+                     {isDirty ? '放弃修改' : '退出编辑'}
+                   </button>
+                   <button
+                     onClick={handleSaveEdit}
+                     disabled={!isDirty}
+                     className="flex items-center gap-1 px-2.5 py-1 text-xs text-white bg-accent hover:bg-blue-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                     title="保存为新版本 (Ctrl+S)"
+                   >
+                     <Save className="w-3.5 h-3.5" />
+                     保存为新版本
+                   </button>
+                 </div>
+               ) : viewMode === 'comments' ? (
+                 <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                   <MessageSquare className="w-4 h-4" />
+                   审稿批注
+                 </span>
+               ) : viewMode === 'preview' ? (
+                 isStreaming ? (
+                   <span className="text-xs font-semibold text-accent uppercase tracking-wider flex items-center gap-2 animate-pulse">
+                     <Loader2 className="w-4 h-4 animate-spin" />
+                     实时生成中
+                   </span>
+                 ) : (
+                   <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                     <FileText className="w-4 h-4" />
+                     文档内容
+                   </span>
+                 )
+               ) : (
+                 <div className="flex items-center gap-3">
+                   <select
+                     value={compareTarget}
+                     onChange={(e) => setCompareTarget(e.target.value)}
+                     className="text-xs border border-slate-200 rounded px-2 py-1 bg-white text-slate-700 focus:outline-none focus:border-accent"
+                   >
+                     <option value="original">原文 → 当前版本</option>
+                     {lineage.slice(1).map((v, i) => (
+                       <option key={v.id} value={v.id}>
+                         v{lineage[i].version} → v{v.version}：{v.label}
+                       </option>
+                     ))}
+                   </select>
+                   <div className="flex items-center gap-1 text-xs">
+                     {(['word', 'sentence'] as DiffGranularity[]).map(g => (
+                       <button
+                         key={g}
+                         onClick={() => setGranularity(g)}
+                         className={`px-2 py-0.5 rounded border ${
+                           granularity === g ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                         }`}
+                       >
+                         {g === 'word' ? '词级' : '句级'}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+               )}
+               <span className="text-xs text-slate-400 shrink-0">
+                  {viewMode === 'edit' ? (
+                    `${draft.length} 字符${isDirty ? ' · 未保存' : ''}`
+                  ) : viewMode === 'preview' || viewMode === 'comments' ? (
+                    `${previewText.length} 字符`
+                  ) : !stats ? (
+                    '正在比较…'
+                  ) : (
+                    <>
+                      <span className="text-green-600">+{stats.added}</span>
+                      {' / '}
+                      <span className="text-red-500">-{stats.removed}</span>
+                      {' 字符'}
+                    </>
+                  )}
                </span>
             </div>
-            <div className="flex-1 overflow-y-auto p-8">
-               <article className="prose prose-slate max-w-4xl mx-auto prose-headings:font-semibold prose-a:text-accent prose-pre:bg-slate-800 prose-pre:text-slate-100">
-                 <ReactMarkdown
-                    remarkPlugins={[remarkMath]}
-                    rehypePlugins={[rehypeKatex]}
-                 >
-                    {currentText}
-                 </ReactMarkdown>
-               </article>
-            </div>
+
+            {viewMode === 'preview' && (
+              <div className="flex-1 overflow-y-auto p-8">
+                 <article className="prose prose-slate max-w-4xl mx-auto prose-headings:font-semibold prose-a:text-accent prose-pre:bg-slate-800 prose-pre:text-slate-100">
+                   <ReactMarkdown
+                      remarkPlugins={[remarkGfm, remarkMath]}
+                      rehypePlugins={[rehypeKatex]}
+                   >
+                      {previewText}
+                   </ReactMarkdown>
+                 </article>
+              </div>
+            )}
+
+            {viewMode === 'edit' && (
+              <div className="flex-1 overflow-hidden grid grid-cols-2 divide-x divide-slate-100">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+                      e.preventDefault();
+                      handleSaveEdit();
+                    }
+                  }}
+                  spellCheck={false}
+                  className="h-full p-6 resize-none font-mono text-sm leading-relaxed text-slate-700 outline-none"
+                />
+                <div className="overflow-y-auto p-6">
+                  <article className="prose prose-slate max-w-none prose-headings:font-semibold prose-a:text-accent prose-pre:bg-slate-800 prose-pre:text-slate-100">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm, remarkMath]}
+                      rehypePlugins={[rehypeKatex]}
+                    >
+                      {deferredDraft}
+                    </ReactMarkdown>
+                  </article>
+                </div>
+              </div>
+            )}
+
+            {viewMode === 'comments' && (
+              <CommentView
+                text={currentText}
+                comments={comments}
+                onApply={onApplyComment}
+                onStatusChange={onCommentStatus}
+              />
+            )}
+
+            {showsDiff && !segments && (
+              <div className="flex-1 flex items-center justify-center text-slate-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            )}
+
+            {viewMode === 'inline' && segments && (
+              <div className="flex-1 overflow-y-auto p-8">
+                <div className="max-w-4xl mx-auto">
+                  <DiffText segments={segments} show={['equal', 'delete', 'insert']} />
+                </div>
+              </div>
+            )}
+
+            {viewMode === 'split' && segments && (
+              <div className="flex-1 overflow-hidden grid grid-cols-2 divide-x divide-slate-100">
+                <div className="overflow-y-auto p-6">
+                  <span className="block text-[10px] font-bold text-red-500 uppercase tracking-wider mb-3">修改前</span>
+                  <DiffText segments={segments} show={['equal', 'delete']} />
+                </div>
+                <div className="overflow-y-auto p-6">
+                  <span className="block text-[10px] font-bold text-green-600 uppercase tracking-wider mb-3">修改后</span>
+                  <DiffText segments={segments} show={['equal', 'insert']} />
+                </div>
+              </div>
+            )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
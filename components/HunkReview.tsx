@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Check, X, CheckCheck, Ban, ClipboardCheck } from 'lucide-react';
+import { DiffHunk, HunkedDiff } from '../types';
+import { mergeHunks } from '../services/diffService';
+
+interface HunkReviewProps {
+  stepName: string;
+  diffSummary?: string;
+  parts: HunkedDiff;
+  onConfirm: (mergedText: string) => void;
+  onDiscard: () => void;
+}
+
+// Unchanged text longer than this is collapsed to its head and tail.
+const CONTEXT_CHARS = 200;
+
+export const UnchangedText: React.FC<{ text: string }> = ({ text }) => {
+  if (text.length <= CONTEXT_CHARS * 2) {
+    return <span className="text-slate-400">{text}</span>;
+  }
+  return (
+    <span className="text-slate-400">
+      {text.slice(0, CONTEXT_CHARS)}
+      <span className="block my-2 text-center text-[10px] text-slate-300 select-none">
+        ⋯ 省略 {text.length - CONTEXT_CHARS * 2} 字符未修改内容 ⋯
+      </span>
+      {text.slice(-CONTEXT_CHARS)}
+    </span>
+  );
+};
+
+export const HunkReview: React.FC<HunkReviewProps> = ({ stepName, diffSummary, parts, onConfirm, onDiscard }) => {
+  const hunks = parts.filter((p): p is DiffHunk => typeof p !== 'string');
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunks.map(h => h.index)));
+
+  const toggle = (index: number, accept: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    if (accepted.size === 0) {
+      onDiscard();
+      return;
+    }
+    onConfirm(mergeHunks(parts, accepted));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-slate-50 overflow-hidden">
+      <div className="h-16 px-6 bg-white border-b border-slate-200 flex items-center justify-between shrink-0">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-accent" />
+            审阅修改：{stepName}
+          </h2>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs text-slate-500 mr-2">
+            已接受 {accepted.size} / {hunks.length} 处
+          </span>
+          <button
+            onClick={() => setAccepted(new Set(hunks.map(h => h.index)))}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+          >
+            <CheckCheck className="w-4 h-4" />
+            全部接受
+          </button>
+          <button
+            onClick={() => setAccepted(new Set())}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+          >
+            <Ban className="w-4 h-4" />
+            全部拒绝
+          </button>
+          <button
+            onClick={onDiscard}
+            className="px-3 py-1.5 text-sm text-slate-600 bg-white border border-slate-300 hover:bg-slate-50 rounded-md transition-colors"
+          >
+            放弃本步
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-accent hover:bg-blue-600 rounded-md shadow-sm transition-colors"
+          >
+            <Check className="w-4 h-4" />
+            应用所选修改
+          </button>
+        </div>
+      </div>
+
+      {diffSummary && (
+        <div className="mx-6 mt-4 text-xs bg-green-50 text-green-700 p-3 rounded-lg border border-green-100">
+          <strong>模型说明：</strong> {diffSummary}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden p-6">
+        <div className="h-full bg-white rounded-lg shadow-sm border border-slate-200 overflow-y-auto p-8">
+          <div className="max-w-4xl mx-auto font-mono text-sm leading-relaxed whitespace-pre-wrap break-words">
+            {parts.map((part, i) => {
+              if (typeof part === 'string') {
+                return <UnchangedText key={i} text={part} />;
+              }
+              const isAccepted = accepted.has(part.index);
+              return (
+                <span
+                  key={i}
+                  className={`relative inline rounded border px-0.5 ${
+                    isAccepted ? 'border-green-200 bg-green-50/40' : 'border-slate-200 bg-slate-50'
+                  }`}
+                >
+                  {part.before && (
+                    <del className={isAccepted ? 'bg-red-100 text-red-700 line-through' : 'text-slate-700 no-underline'}>
+                      {part.before}
+                    </del>
+                  )}
+                  {part.after && (
+                    <ins className={isAccepted ? 'bg-green-100 text-green-800 no-underline' : 'text-slate-300 line-through'}>
+                      {part.after}
+                    </ins>
+                  )}
+                  <span className="inline-flex align-middle gap-0.5 ml-1 select-none">
+                    <button
+                      onClick={() => toggle(part.index, true)}
+                      className={`p-0.5 rounded ${isAccepted ? 'bg-green-500 text-white' : 'text-slate-400 hover:text-green-600 hover:bg-green-50'}`}
+                      title="接受此处修改"
+                    >
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => toggle(part.index, false)}
+                      className={`p-0.5 rounded ${!isAccepted ? 'bg-red-500 text-white' : 'text-slate-400 hover:text-red-600 hover:bg-red-50'}`}
+                      title="拒绝此处修改"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,69 @@
-import React, { useState, ChangeEvent } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
+import React, { useState, ChangeEvent, DragEvent } from 'react';
+import { Upload, FileText, X, AlertTriangle, Check } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { importFile, ImportFormat, ImportResult, IMPORT_ACCEPT } from '../services/importService';
 
 interface InputSectionProps {
   onAnalyze: (text: string) => void;
+  onCancel: () => void;
   isAnalyzing: boolean;
 }
 
-export const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzing }) => {
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  text: '纯文本',
+  docx: 'Word 文档',
+  pdf: 'PDF 文档',
+  html: 'HTML 网页'
+};
+
+export const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, onCancel, isAnalyzing }) => {
   const [text, setText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Converted documents are shown for review before they replace the input
+  const [pending, setPending] = useState<(ImportResult & { fileName: string }) | null>(null);
+
+  const loadFile = async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const result = await importFile(file);
+      if (result.format === 'text' && result.warnings.length === 0) {
+        setText(result.text);
+      } else {
+        setPending({ ...result, fileName: file.name });
+      }
+    } catch (err: any) {
+      setImportError(err.message || '文件读取失败');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
+    e.target.value = '';
+    if (file) loadFile(file);
+  };
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        setText(event.target.result as string);
-      }
-    };
-    reader.readAsText(file);
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (isAnalyzing || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !isAnalyzing) loadFile(file);
+  };
+
+  const applyPending = () => {
+    if (!pending) return;
+    setText(pending.text);
+    setPending(null);
   };
 
   const handleAnalyzeClick = () => {
@@ -38,46 +82,117 @@ export const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzi
         <div className="relative">
           <input
             type="file"
-            accept=".txt,.md,.json,.js,.ts"
+            accept={IMPORT_ACCEPT}
             onChange={handleFileUpload}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             id="file-upload"
+            disabled={isImporting || isAnalyzing}
           />
           <label
             htmlFor="file-upload"
             className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-sm font-medium transition-colors cursor-pointer"
           >
-            <Upload className="w-4 h-4" />
-            上传文件
+            {isImporting ? (
+              <span className="animate-spin rounded-full h-4 w-4 border-2 border-slate-500 border-t-transparent" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            {isImporting ? '正在转换...' : '上传文件'}
           </label>
         </div>
       </div>
 
-      <div className="relative">
-        <textarea
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder="在此粘贴文档内容或上传文件..."
-          className="w-full h-64 p-4 rounded-lg border border-slate-300 focus:border-accent focus:ring-2 focus:ring-accent/20 resize-none font-mono text-sm leading-relaxed text-slate-700 bg-slate-50 transition-all"
-          disabled={isAnalyzing}
-        />
-        {text && (
+      {importError && (
+        <div className="mb-3 px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-sm text-red-600 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span className="flex-1">{importError}</span>
+          <button onClick={() => setImportError(null)} className="text-red-400 hover:text-red-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {pending ? (
+        <div className="rounded-lg border border-slate-300 overflow-hidden">
+          <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 flex items-center justify-between gap-3">
+            <span className="text-sm text-slate-700 truncate">
+              转换预览：<span className="font-medium">{pending.fileName}</span>
+              <span className="ml-2 text-xs text-slate-400">{FORMAT_LABELS[pending.format]} → Markdown</span>
+            </span>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => setPending(null)}
+                className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+              >
+                取消
+              </button>
+              <button
+                onClick={applyPending}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-accent hover:bg-blue-600 rounded-lg"
+              >
+                <Check className="w-3.5 h-3.5" />
+                使用此内容
+              </button>
+            </div>
+          </div>
+          {pending.warnings.length > 0 && (
+            <ul className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-700 space-y-0.5">
+              {pending.warnings.map((w, i) => (
+                <li key={i} className="flex items-start gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+                  {w}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="h-64 overflow-y-auto p-4 bg-white">
+            <article className="prose prose-sm prose-slate max-w-none">
+              <ReactMarkdown>{pending.text}</ReactMarkdown>
+            </article>
+          </div>
+        </div>
+      ) : (
+        <div className="relative" onDragOver={handleDragOver} onDragLeave={() => setIsDragging(false)} onDrop={handleDrop}>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="在此粘贴文档内容，或上传 / 拖入文件..."
+            className={`w-full h-64 p-4 rounded-lg border focus:border-accent focus:ring-2 focus:ring-accent/20 resize-none font-mono text-sm leading-relaxed text-slate-700 bg-slate-50 transition-all ${
+              isDragging ? 'border-accent border-dashed ring-2 ring-accent/20' : 'border-slate-300'
+            }`}
+            disabled={isAnalyzing || isImporting}
+          />
+          {isDragging && (
+            <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-blue-50/80 text-accent text-sm font-medium pointer-events-none">
+              松开以导入文件
+            </div>
+          )}
+          {text && (
+            <button
+              onClick={() => setText('')}
+              className="absolute top-4 right-4 p-1 text-slate-400 hover:text-slate-600 bg-white rounded-full shadow-sm border border-slate-200"
+              title="清空内容"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-3">
+        {isAnalyzing && (
           <button
-            onClick={() => setText('')}
-            className="absolute top-4 right-4 p-1 text-slate-400 hover:text-slate-600 bg-white rounded-full shadow-sm border border-slate-200"
-            title="清空内容"
+            onClick={onCancel}
+            className="px-4 py-3 rounded-lg font-medium text-slate-600 bg-white border border-slate-300 hover:bg-slate-50 transition-colors"
           >
-            <X className="w-4 h-4" />
+            取消
           </button>
         )}
-      </div>
-
-      <div className="mt-4 flex justify-end">
         <button
           onClick={handleAnalyzeClick}
-          disabled={isAnalyzing || text.trim().length < 10}
+          disabled={isAnalyzing || !!pending || text.trim().length < 10}
           className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold text-white transition-all transform active:scale-95 ${
-            isAnalyzing || text.trim().length < 10
+            isAnalyzing || !!pending || text.trim().length < 10
               ? 'bg-slate-300 cursor-not-allowed'
               : 'bg-accent hover:bg-blue-600 shadow-lg shadow-blue-500/30'
           }`}
@@ -94,10 +209,10 @@ export const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzi
           )}
         </button>
       </div>
-      
+
       <p className="mt-3 text-xs text-slate-400 text-center">
-        支持纯文本、Markdown和代码文件。AI将自动检测类型。
+        支持纯文本、Markdown、代码文件，以及 Word (.docx)、PDF 与 HTML 文档（自动转换为 Markdown）。AI将自动检测类型。
       </p>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { LLMProvider, ModelOverride } from '../types';
+import { PROVIDERS, getProvider } from '../services/providers';
+
+interface ModelOverrideFieldsProps {
+  value: ModelOverride;
+  onChange: (value: ModelOverride) => void;
+  inheritedProvider: LLMProvider; // Used for the model suggestions while no provider is overridden
+  listId: string; // Unique id for the model datalist
+}
+
+/**
+ * Provider, model, temperature and output cap of an override. Empty fields are inherited.
+ */
+export const ModelOverrideFields: React.FC<ModelOverrideFieldsProps> = ({ value, onChange, inheritedProvider, listId }) => {
+  const provider = getProvider(value.provider || inheritedProvider);
+  const update = (changes: ModelOverride) => onChange({ ...value, ...changes });
+  const inputClass = 'w-full px-2 py-1 border border-slate-200 rounded text-xs font-mono outline-none focus:border-accent bg-white';
+
+  return (
+    <div className="grid grid-cols-2 gap-1.5">
+      <select
+        value={value.provider || ''}
+        onChange={(e) => {
+          const next = (e.target.value || undefined) as LLMProvider | undefined;
+          // A model id rarely carries over to another provider
+          update({ provider: next, model: undefined });
+        }}
+        className={inputClass}
+        title="模型服务商"
+      >
+        <option value="">服务商：默认</option>
+        {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <input
+        list={listId}
+        value={value.model || ''}
+        onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+        placeholder="模型：默认"
+        className={inputClass}
+        title="模型"
+      />
+      <datalist id={listId}>
+        {provider.models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+      </datalist>
+      <input
+        type="number"
+        min={0}
+        max={2}
+        step={0.1}
+        value={value.temperature ?? ''}
+        onChange={(e) => update({ temperature: e.target.value === '' ? undefined : Math.max(0, Math.min(2, Number(e.target.value))) })}
+        placeholder="温度：默认"
+        className={inputClass}
+        title="采样温度 (0–2)"
+      />
+      <input
+        type="number"
+        min={256}
+        step={256}
+        value={value.maxOutputTokens ?? ''}
+        onChange={(e) => update({ maxOutputTokens: e.target.value === '' ? undefined : Math.max(1, Math.round(Number(e.target.value))) })}
+        placeholder="输出上限：默认"
+        className={inputClass}
+        title="最大输出 tokens"
+      />
+    </div>
+  );
+};
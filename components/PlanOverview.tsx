@@ -1,33 +1,346 @@
 import React, { useState } from 'react';
-import { AgentPlan, ReviewStep, StepStatus } from '../types';
-import { CheckCircle, Circle, Loader2, PlayCircle, Lock, ArrowRight, AlertCircle, Target, RefreshCw, Plus, Trash2, X, Check, UserCheck, Zap } from 'lucide-react';
+import { AgentPlan, AppConfig, CandidateVariant, ContentLoss, CritiqueVerdict, LLMProvider, ModelOverride, DocumentVersion, ReviewMode, ReviewStep, RubricDimension, StepStatus, UsageRecord } from '../types';
+import { CheckCircle, Circle, Loader2, PlayCircle, Lock, ArrowRight, AlertCircle, Target, RefreshCw, Plus, Trash2, X, Check, UserCheck, Zap, Pause, Square, Coins, ShieldCheck, ShieldAlert, BarChart3, Pencil, GripVertical, SkipForward, Undo2, GitMerge, Layers, Cpu, FileEdit, MessageSquare, FileWarning } from 'lucide-react';
+import { estimateCost, sumTokens, formatCost, formatTokens } from '../services/usageService';
+import { getLanguage } from '../services/languageService';
+import { blockingSteps, isStepReady, wouldCreateCycle } from '../services/planService';
+import { DEFAULT_CANDIDATES, MIN_CANDIDATES, MAX_CANDIDATES } from '../services/candidateService';
+import { describeOverride, hasOverride } from '../services/modelRouting';
+import { CONTENT_LOSS_LABELS } from '../services/contentGuard';
+import { ModelOverrideFields } from './ModelOverrideFields';
+import { ScoreChart } from './ScoreChart';
 
 interface PlanOverviewProps {
   plan: AgentPlan | null;
   onStartStep: (stepId: string) => void;
+  onStartCandidates: (stepId: string, variants: CandidateVariant[]) => void;
   onNewIteration: () => void;
   onAddStep: (name: string, description: string) => void;
   onDeleteStep: (stepId: string) => void;
+  onUpdateStep: (stepId: string, changes: Pick<ReviewStep, 'name' | 'description' | 'reasoning' | 'dependsOn' | 'overrides'>) => void;
+  onMoveStep: (stepId: string, toIndex: number) => void;
+  onSkipStep: (stepId: string, skipped: boolean) => void;
   onAutoRun: () => void;
+  onPauseAutoRun: () => void;
+  onCancel: () => void;
+  isPauseRequested: boolean;
+  isAutoPaused: boolean;
+  pauseForReview: boolean;
+  onTogglePauseForReview: (value: boolean) => void;
+  isAwaitingReview: boolean;
+  sectionProgress: { index: number; total: number } | null;
+  candidateProgress: { index: number; total: number } | null;
+  defaultCandidates: CandidateVariant[];
+  modelOptions: { id: string; name: string }[];
+  executionProvider: LLMProvider; // Provider steps run on unless they override it
+  critiqueStatus: { attempt: number; verdict?: CritiqueVerdict } | null;
   isProcessing: boolean;
   isAutoRunning: boolean;
   activeStepId: string | null;
+  usageLog: UsageRecord[];
+  prices?: AppConfig['prices'];
+  budgetUsd?: number;
+  unpricedModels: string[]; // Models a run may call without a known price
+  onBudgetChange: (budgetUsd?: number) => void;
+  reviewMode: ReviewMode;
+  onReviewModeChange: (mode: ReviewMode) => void;
+  rubric?: RubricDimension[];
+  lineage: DocumentVersion[];
+  scoringVersionId: string | null;
+  scoreFailureCount: number;
+  onRetryScoring: () => void;
 }
 
+/**
+ * The critic's verdict on the kept revision, with the reasons of any earlier rejected attempts.
+ */
+const CritiqueCard: React.FC<{ critiques: CritiqueVerdict[] }> = ({ critiques }) => {
+  const verdict = critiques[critiques.length - 1];
+  const rejected = critiques.slice(0, -1);
+  return (
+    <details className={`mt-2 text-xs rounded border p-2 ${
+      verdict.approved ? 'bg-violet-50 text-violet-700 border-violet-100' : 'bg-red-50 text-red-700 border-red-100'
+    }`}>
+      <summary className="cursor-pointer font-medium flex items-center gap-1.5">
+        {verdict.approved ? <ShieldCheck className="w-3.5 h-3.5" /> : <ShieldAlert className="w-3.5 h-3.5" />}
+        {verdict.approved ? '同行评审通过' : '同行评审未通过（已达重做上限）'}
+        {critiques.length > 1 && <span className="font-normal opacity-75">· 共 {critiques.length} 版修订</span>}
+      </summary>
+      <ul className="mt-1.5 space-y-0.5 list-disc pl-4">
+        {verdict.regressions.map((r, i) => <li key={`r${i}`} className="text-red-600">退化：{r}</li>)}
+        {verdict.reasons.map((r, i) => <li key={i}>{r}</li>)}
+      </ul>
+      {rejected.map(c => (
+        <div key={c.attempt} className="mt-2 pt-1.5 border-t border-black/5 opacity-75">
+          <span className="font-medium">第 {c.attempt} 版被驳回：</span>
+          <ul className="list-disc pl-4">
+            {[...c.regressions, ...c.reasons].map((r, i) => <li key={i}>{r}</li>)}
+          </ul>
+        </div>
+      ))}
+    </details>
+  );
+};
+
+/**
+ * What the content guard found missing from a step result. A blocked result failed the step.
+ */
+const LossCard: React.FC<{ losses: ContentLoss[]; blocked: boolean }> = ({ losses, blocked }) => (
+  <details className={`mt-2 text-xs rounded border p-2 ${
+    blocked ? 'bg-red-50 text-red-700 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'
+  }`}>
+    <summary className="cursor-pointer font-medium flex items-center gap-1.5">
+      <FileWarning className="w-3.5 h-3.5" />
+      {blocked ? '内容保护：已阻止提交' : '内容保护：可能丢失内容'}
+      <span className="font-normal opacity-75">· {losses.map(l => CONTENT_LOSS_LABELS[l.kind]).join('、')}</span>
+    </summary>
+    <ul className="mt-1.5 space-y-1">
+      {losses.map(loss => (
+        <li key={loss.kind}>
+          <span className="font-medium">{CONTENT_LOSS_LABELS[loss.kind]}：</span>
+          <span className="break-words">{loss.items.slice(0, 12).join('；')}</span>
+          {loss.items.length > 12 && <span className="opacity-75"> 等 {loss.items.length} 项</span>}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+/**
+ * Inline form for a pending step: its wording, the steps it has to wait for and its model settings.
+ * Steps that already depend on this one are not offered, so the plan stays acyclic.
+ */
+const StepEditor: React.FC<{
+  step: ReviewStep;
+  steps: ReviewStep[];
+  executionProvider: LLMProvider;
+  onSave: (changes: Pick<ReviewStep, 'name' | 'description' | 'reasoning' | 'dependsOn' | 'overrides'>) => void;
+  onCancel: () => void;
+}> = ({ step, steps, executionProvider, onSave, onCancel }) => {
+  const [name, setName] = useState(step.name);
+  const [description, setDescription] = useState(step.description);
+  const [reasoning, setReasoning] = useState(step.reasoning);
+  const [dependsOn, setDependsOn] = useState<string[]>(step.dependsOn || []);
+  const [overrides, setOverrides] = useState<ModelOverride>(step.overrides || {});
+
+  const candidates = steps.filter(s => s.id !== step.id);
+  const toggle = (id: string) =>
+    setDependsOn(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+
+  return (
+    <div className="space-y-2">
+      <input
+        className="w-full text-sm font-semibold border-b border-slate-100 focus:outline-none focus:border-accent bg-transparent placeholder-slate-300"
+        placeholder="任务名称"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        autoFocus
+      />
+      <textarea
+        className="w-full text-xs text-slate-600 resize-none focus:outline-none bg-transparent placeholder-slate-300"
+        placeholder="任务描述..."
+        rows={3}
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+      />
+      <textarea
+        className="w-full text-xs text-slate-500 resize-none focus:outline-none bg-slate-50 rounded p-1.5 placeholder-slate-300"
+        placeholder="执行理由..."
+        rows={2}
+        value={reasoning}
+        onChange={e => setReasoning(e.target.value)}
+      />
+      {candidates.length > 0 && (
+        <div className="text-xs">
+          <span className="text-slate-400 flex items-center gap-1 mb-1">
+            <GitMerge className="w-3 h-3" />
+            须在以下任务完成后执行
+          </span>
+          <div className="space-y-0.5 max-h-32 overflow-y-auto">
+            {candidates.map(c => {
+              const cyclic = wouldCreateCycle(steps, step.id, c.id);
+              return (
+                <label
+                  key={c.id}
+                  className={`flex items-center gap-1.5 ${cyclic ? 'text-slate-300 cursor-not-allowed' : 'text-slate-600 cursor-pointer'}`}
+                  title={cyclic ? '该任务已依赖于当前任务' : undefined}
+                >
+                  <input
+                    type="checkbox"
+                    checked={dependsOn.includes(c.id)}
+                    disabled={cyclic}
+                    onChange={() => toggle(c.id)}
+                    className="w-3 h-3 text-accent border-slate-300 rounded focus:ring-accent"
+                  />
+                  <span className="truncate">{c.name}</span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      <div className="text-xs">
+        <span className="text-slate-400 flex items-center gap-1 mb-1">
+          <Cpu className="w-3 h-3" />
+          本步骤的模型设置（留空沿用执行阶段默认）
+        </span>
+        <ModelOverrideFields
+          value={overrides}
+          onChange={setOverrides}
+          inheritedProvider={executionProvider}
+          listId={`step-models-${step.id}`}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onSave({
+            name: name.trim(),
+            description: description.trim(),
+            reasoning: reasoning.trim(),
+            dependsOn,
+            overrides: hasOverride(overrides) ? overrides : undefined
+          })}
+          className="p-1.5 text-accent hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+          disabled={!name.trim() || !description.trim()}
+        >
+          <Check className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Best-of-N setup for one step: how many candidates, and the model and temperature of each.
+ */
+const CandidateSetup: React.FC<{
+  initial: CandidateVariant[];
+  modelOptions: { id: string; name: string }[];
+  onStart: (variants: CandidateVariant[]) => void;
+  onCancel: () => void;
+}> = ({ initial, modelOptions, onStart, onCancel }) => {
+  const [variants, setVariants] = useState<CandidateVariant[]>(initial);
+
+  const resize = (count: number) =>
+    setVariants(prev => Array.from({ length: count }, (_, i) => prev[i] || DEFAULT_CANDIDATES[i] || {}));
+  const update = (index: number, changes: CandidateVariant) =>
+    setVariants(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v));
+
+  return (
+    <div className="mt-2 p-2 rounded border border-slate-200 bg-slate-50 space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-500">候选数量</span>
+        <div className="flex gap-1">
+          {Array.from({ length: MAX_CANDIDATES - MIN_CANDIDATES + 1 }, (_, i) => MIN_CANDIDATES + i).map(n => (
+            <button
+              key={n}
+              onClick={() => resize(n)}
+              className={`w-6 h-6 rounded ${variants.length === n ? 'bg-accent text-white' : 'bg-white border border-slate-200 text-slate-600 hover:border-slate-300'}`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      </div>
+      {variants.map((variant, i) => (
+        <div key={i} className="flex items-center gap-1.5">
+          <span className="w-10 shrink-0 text-slate-400">候选 {i + 1}</span>
+          <input
+            list="candidate-models"
+            value={variant.model || ''}
+            onChange={(e) => update(i, { model: e.target.value.trim() || undefined })}
+            placeholder="默认模型"
+            className="flex-1 min-w-0 px-1.5 py-1 border border-slate-200 rounded font-mono outline-none focus:border-accent"
+          />
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={variant.temperature ?? ''}
+            onChange={(e) => update(i, { temperature: e.target.value === '' ? undefined : Math.max(0, Math.min(2, Number(e.target.value))) })}
+            placeholder="温度"
+            title="采样温度，留空使用默认值"
+            className="w-14 px-1.5 py-1 border border-slate-200 rounded font-mono outline-none focus:border-accent"
+          />
+        </div>
+      ))}
+      <datalist id="candidate-models">
+        {modelOptions.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+      </datalist>
+      <p className="text-[10px] text-slate-400">每个候选都基于同一份当前文本完整执行一次本步骤，费用约为单次执行的 {variants.length} 倍。</p>
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-500 rounded transition-colors"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => onStart(variants)}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded transition-colors"
+        >
+          <Layers className="w-3 h-3" />
+          生成 {variants.length} 个候选
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const PlanOverview: React.FC<PlanOverviewProps> = ({ 
   plan, 
   onStartStep, 
+  onStartCandidates,
   onNewIteration, 
   onAddStep,
   onDeleteStep,
+  onUpdateStep,
+  onMoveStep,
+  onSkipStep,
   onAutoRun,
+  onPauseAutoRun,
+  onCancel,
+  isPauseRequested,
+  isAutoPaused,
+  pauseForReview,
+  onTogglePauseForReview,
+  isAwaitingReview,
+  sectionProgress,
+  candidateProgress,
+  defaultCandidates,
+  modelOptions,
+  executionProvider,
+  critiqueStatus,
   isProcessing,
   isAutoRunning,
-  activeStepId 
+  activeStepId,
+  usageLog,
+  prices,
+  budgetUsd,
+  unpricedModels,
+  onBudgetChange,
+  reviewMode,
+  onReviewModeChange,
+  rubric,
+  lineage,
+  scoringVersionId,
+  scoreFailureCount,
+  onRetryScoring
 }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [newName, setNewName] = useState('');
   const [newDesc, setNewDesc] = useState('');
+  const [editingStepId, setEditingStepId] = useState<string | null>(null);
+  const [candidateStepId, setCandidateStepId] = useState<string | null>(null);
+  const [draggedStepId, setDraggedStepId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   if (!plan) return null;
 
@@ -50,15 +363,51 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
         return <Circle className="w-5 h-5 text-slate-300" />;
       case StepStatus.FAILED:
         return <div className="w-5 h-5 rounded-full bg-red-100 text-red-500 flex items-center justify-center font-bold text-xs">!</div>;
+      case StepStatus.SKIPPED:
+        return <SkipForward className="w-5 h-5 text-slate-300" />;
       default:
         return <Circle className="w-5 h-5 text-slate-300" />;
     }
   };
 
-  const completedSteps = plan.steps.filter(s => s.status === StepStatus.COMPLETED).length;
+  // Skipped steps count as settled, otherwise a plan with a skipped step could never reach 100%
+  const settledSteps = plan.steps.filter(s => s.status === StepStatus.COMPLETED || s.status === StepStatus.SKIPPED).length;
   const totalSteps = plan.steps.length;
-  const progress = totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 0;
+  const progress = totalSteps > 0 ? Math.round((settledSteps / totalSteps) * 100) : 0;
   const hasPendingSteps = plan.steps.some(s => s.status === StepStatus.PENDING);
+  const hasRunnableSteps = plan.steps.some(s => isStepReady(s, plan.steps));
+
+  const handleDrop = (index: number) => {
+    if (draggedStepId) onMoveStep(draggedStepId, index);
+    setDraggedStepId(null);
+    setDropIndex(null);
+  };
+
+  const describeUsage = (records: UsageRecord[]) => {
+    const tokens = sumTokens(records);
+    const { cost, unpriced } = estimateCost(records, prices);
+    const estimated = records.some(r => r.estimated);
+    return {
+      tokens: `${formatTokens(tokens.inputTokens)} 入 / ${formatTokens(tokens.outputTokens)} 出`,
+      cost: `${estimated ? '≈' : ''}${formatCost(cost)}${unpriced ? '+' : ''}`
+    };
+  };
+  const planUsage = describeUsage(plan.usage ? [plan.usage] : []);
+  const stepsUsage = describeUsage(plan.steps.flatMap(s => s.usage ? [s.usage] : []));
+  const projectUsage = describeUsage(usageLog);
+  const projectCost = estimateCost(usageLog, prices).cost;
+
+  // Rubric score change made by a step: its version against the one before it on the branch
+  const scoreDelta = (stepId: string) => {
+    const index = lineage.findIndex(v => v.stepId === stepId);
+    const before = lineage[index - 1]?.score;
+    const after = lineage[index]?.score;
+    if (index < 1 || !before || !after || !rubric) return null;
+    return rubric
+      .filter(d => before.scores[d.id] !== undefined && after.scores[d.id] !== undefined)
+      .map(d => ({ id: d.id, name: d.name, delta: after.scores[d.id] - before.scores[d.id] }));
+  };
+  const isOverBudget = budgetUsd !== undefined && projectCost >= budgetUsd;
 
   return (
     <div className="h-full flex flex-col bg-white border-r border-slate-200 w-96 shrink-0 overflow-hidden">
@@ -75,6 +424,12 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
                 {plan.analysis.category}
                </span>
             </div>
+            {plan.language && (
+              <div className="flex justify-between items-center">
+                 <span className="text-xs text-slate-500">语言</span>
+                 <span className="text-xs text-slate-600">{getLanguage(plan.language).label}</span>
+              </div>
+            )}
             
             {/* Dynamic Persona Display */}
             {plan.analysis.assignedPersona && (
@@ -122,6 +477,35 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
                 </p>
              </div>
           </div>
+
+          {/* Rubric Scores */}
+          {rubric && rubric.length > 0 && (
+            <div className="bg-white p-3 rounded-lg border border-slate-200">
+              <h4 className="text-xs font-bold text-slate-700 mb-2 flex items-center justify-between">
+                <span className="flex items-center gap-1.5">
+                  <BarChart3 className="w-3 h-3" />
+                  质量评分
+                </span>
+                {scoringVersionId ? (
+                  <span className="font-normal text-slate-400 flex items-center gap-1">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    评分中
+                  </span>
+                ) : scoreFailureCount > 0 && (
+                  <button onClick={onRetryScoring} className="font-normal text-red-500 hover:underline">
+                    {scoreFailureCount} 个版本评分失败，重试
+                  </button>
+                )}
+              </h4>
+              {lineage.some(v => v.score) ? (
+                <ScoreChart rubric={rubric} versions={lineage} />
+              ) : (
+                <p className="text-xs text-slate-400">
+                  {scoringVersionId ? '正在按量规为原始文档评分...' : '尚无评分'}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -132,9 +516,30 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
                 <span>执行优化计划</span>
                 <span className="text-xs font-normal text-slate-500">{progress}%</span>
             </h3>
+
+            {/* Review Mode */}
+            <div className="flex bg-slate-100 p-1 rounded-lg mb-3">
+                {([
+                    { mode: 'rewrite', label: '全文重写', icon: FileEdit, title: '每个步骤直接修订文档，生成新版本' },
+                    { mode: 'comments', label: '批注建议', icon: MessageSquare, title: '每个步骤只提出锚定到原文的批注，由你逐条采纳或忽略' }
+                ] as const).map(({ mode, label, icon: Icon, title }) => (
+                    <button
+                        key={mode}
+                        onClick={() => onReviewModeChange(mode)}
+                        disabled={isProcessing}
+                        title={title}
+                        className={`flex-1 flex items-center justify-center gap-1 py-1 text-xs rounded-md transition-all disabled:cursor-not-allowed ${
+                            reviewMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                    >
+                        <Icon className="w-3.5 h-3.5" />
+                        {label}
+                    </button>
+                ))}
+            </div>
             
             {/* Auto Run Button */}
-            {hasPendingSteps && (
+            {hasRunnableSteps && (
                 <button
                     onClick={onAutoRun}
                     disabled={isProcessing}
@@ -152,11 +557,52 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
                     ) : (
                         <>
                             <Zap className="w-4 h-4 fill-current" />
-                            一键自动执行 Agent 优化
+                            {isAutoPaused ? '继续自动执行' : '一键自动执行 Agent 优化'}
                         </>
                     )}
                 </button>
             )}
+
+            {/* Run Controls */}
+            {isProcessing && (
+                <div className="mt-2 flex gap-2">
+                    {isAutoRunning && (
+                        <button
+                            onClick={onPauseAutoRun}
+                            disabled={isPauseRequested}
+                            className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 text-xs font-medium rounded transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <Pause className="w-3 h-3" />
+                            {isPauseRequested ? '将在本步完成后暂停' : '本步完成后暂停'}
+                        </button>
+                    )}
+                    <button
+                        onClick={onCancel}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-white border border-red-200 hover:bg-red-50 text-red-600 text-xs font-medium rounded transition-colors"
+                    >
+                        <Square className="w-3 h-3 fill-current" />
+                        取消当前任务
+                    </button>
+                </div>
+            )}
+            {isAutoPaused && !isProcessing && hasRunnableSteps && (
+                <p className="mt-2 text-[10px] text-amber-600 text-center">自动执行已暂停，可继续执行剩余步骤</p>
+            )}
+            {!isProcessing && hasPendingSteps && !hasRunnableSteps && (
+                <p className="text-[10px] text-amber-600 text-center">剩余任务所依赖的任务尚未完成，请重试或跳过失败的任务</p>
+            )}
+            {hasPendingSteps && reviewMode === 'rewrite' && (
+                <label className="mt-2 flex items-center gap-2 text-xs text-slate-500 cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={pauseForReview}
+                        onChange={(e) => onTogglePauseForReview(e.target.checked)}
+                        disabled={isAutoRunning}
+                        className="w-3.5 h-3.5 text-accent border-slate-300 rounded focus:ring-accent"
+                    />
+                    自动执行时每步暂停审阅修改
+                </label>
+            )}
         </div>
 
         <div className="space-y-4 relative pb-4">
@@ -166,66 +612,270 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
           {plan.steps.map((step, index) => {
             const isActive = activeStepId === step.id;
             const isPending = step.status === StepStatus.PENDING;
-            // Only show "run step" button if manual mode is possible (not auto running) and sequential order
-            const isNext = isPending && !activeStepId && !isProcessing && (index === 0 || plan.steps[index - 1].status === StepStatus.COMPLETED);
-            const canDelete = step.status === StepStatus.PENDING;
+            const isEditing = editingStepId === step.id;
+            const waitingFor = blockingSteps(step, plan.steps);
+            const dependencies = (step.dependsOn || [])
+              .map(id => plan.steps.find(s => s.id === id))
+              .filter((s): s is ReviewStep => !!s);
+            // Any pending step whose dependencies are done can run, not only the first one
+            const isNext = isStepReady(step, plan.steps) && !activeStepId && !isProcessing;
+            // Failed steps stay editable so they can be retried on a stronger model
+            const canEdit = (isPending || step.status === StepStatus.FAILED) && !isProcessing;
+            const isDropTarget = draggedStepId !== null && dropIndex === index && draggedStepId !== step.id;
 
             return (
               <div 
                 key={step.id} 
-                className={`relative pl-8 transition-all duration-300 group ${isActive ? 'scale-105' : ''}`}
+                className={`relative pl-8 transition-all duration-300 group ${isActive ? 'scale-105' : ''} ${draggedStepId === step.id ? 'opacity-40' : ''}`}
+                draggable={canEdit && !isEditing}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedStepId(step.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedStepId) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDraggedStepId(null);
+                  setDropIndex(null);
+                }}
               >
                 <div className="absolute left-0 top-1 bg-white z-10">
                   {getStatusIcon(step.status)}
                 </div>
                 
                 <div className={`p-3 rounded-lg border transition-all relative ${
-                  isActive 
+                  isDropTarget
+                    ? 'border-accent border-dashed bg-blue-50/50'
+                    : isActive 
                     ? 'bg-blue-50 border-accent shadow-md' 
                     : step.status === StepStatus.COMPLETED 
                       ? 'bg-slate-50 border-slate-200'
-                      : 'bg-white border-slate-100 opacity-80'
+                      : step.status === StepStatus.SKIPPED
+                        ? 'bg-slate-50 border-slate-100 opacity-60'
+                        : 'bg-white border-slate-100 opacity-80'
                 }`}>
-                  <h4 className={`text-sm font-semibold mb-1 pr-6 ${
-                    isActive ? 'text-blue-800' : 'text-slate-700'
-                  }`}>
-                    {step.name}
-                  </h4>
-                  <p className="text-xs text-slate-500 mb-2 leading-relaxed">
-                    {step.description}
-                  </p>
+                  {isEditing ? (
+                    <StepEditor
+                      step={step}
+                      steps={plan.steps}
+                      executionProvider={executionProvider}
+                      onSave={(changes) => {
+                        onUpdateStep(step.id, changes);
+                        setEditingStepId(null);
+                      }}
+                      onCancel={() => setEditingStepId(null)}
+                    />
+                  ) : (
+                    <>
+                      <h4 className={`text-sm font-semibold mb-1 pr-14 ${
+                        isActive ? 'text-blue-800' : step.status === StepStatus.SKIPPED ? 'text-slate-400 line-through' : 'text-slate-700'
+                      }`}>
+                        {step.name}
+                      </h4>
+                      <p className="text-xs text-slate-500 mb-2 leading-relaxed">
+                        {step.description}
+                      </p>
+                    </>
+                  )}
+
+                  {!isEditing && hasOverride(step.overrides) && (
+                    <div className="mb-1 flex items-center gap-1 text-[10px] text-slate-400" title="本步骤单独指定的模型设置">
+                      <Cpu className="w-3 h-3" />
+                      <span className="font-mono truncate">{describeOverride(step.overrides)}</span>
+                    </div>
+                  )}
+
+                  {!isEditing && dependencies.length > 0 && (
+                    <div className="mb-1 flex flex-wrap items-center gap-1 text-[10px] text-slate-400">
+                      <GitMerge className="w-3 h-3" />
+                      依赖：
+                      {dependencies.map(d => (
+                        <span
+                          key={d.id}
+                          className={`px-1.5 py-0.5 rounded ${waitingFor.includes(d) ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-500'}`}
+                        >
+                          {d.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   
-                  {/* Delete Button */}
-                  {canDelete && !isProcessing && (
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); onDeleteStep(step.id); }}
-                      className="absolute right-2 top-2 p-1 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors opacity-0 group-hover:opacity-100"
-                      title="删除任务"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </button>
+                  {/* Edit / Delete Buttons */}
+                  {canEdit && !isEditing && (
+                    <div className="absolute right-2 top-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <span className="p-1 text-slate-300 cursor-grab" title="拖动以调整顺序">
+                        <GripVertical className="w-3 h-3" />
+                      </span>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); setEditingStepId(step.id); }}
+                        className="p-1 text-slate-300 hover:text-accent hover:bg-blue-50 rounded transition-colors"
+                        title="编辑任务"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); onDeleteStep(step.id); }}
+                        className="p-1 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                        title="删除任务"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+
+                  {isPending && !isEditing && waitingFor.length > 0 && (
+                    <div className="mt-1 flex items-center gap-1.5 text-[10px] text-slate-400">
+                      <Lock className="w-3 h-3" />
+                      等待 {waitingFor.map(d => d.name).join('、')} 完成
+                    </div>
                   )}
                   
-                  {isNext && !isAutoRunning && (
+                  {isNext && !isAutoRunning && !isEditing && (
+                    candidateStepId === step.id && reviewMode === 'rewrite' ? (
+                      <CandidateSetup
+                        initial={defaultCandidates}
+                        modelOptions={modelOptions}
+                        onStart={(variants) => {
+                          setCandidateStepId(null);
+                          onStartCandidates(step.id, variants);
+                        }}
+                        onCancel={() => setCandidateStepId(null)}
+                      />
+                    ) : (
+                      <div className="mt-2 flex gap-2">
+                        <button
+                          onClick={() => onStartStep(step.id)}
+                          className="flex-1 flex items-center justify-center gap-2 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 text-xs font-medium rounded transition-colors"
+                        >
+                          <PlayCircle className="w-3 h-3" />
+                          单步执行
+                        </button>
+                        {reviewMode === 'rewrite' && (
+                        <button
+                          onClick={() => setCandidateStepId(step.id)}
+                          className="flex items-center justify-center gap-1.5 px-2.5 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-500 text-xs font-medium rounded transition-colors"
+                          title="生成多个候选修订，择优选用或合并"
+                        >
+                          <Layers className="w-3 h-3" />
+                          多候选
+                        </button>
+                        )}
+                      </div>
+                    )
+                  )}
+
+                  {step.status === StepStatus.FAILED && !isProcessing && (
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        onClick={() => onStartStep(step.id)}
+                        disabled={waitingFor.length > 0}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 text-xs font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        重试
+                      </button>
+                      <button
+                        onClick={() => onSkipStep(step.id, true)}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-500 text-xs font-medium rounded transition-colors"
+                        title="跳过后，依赖此任务的后续任务可以继续执行"
+                      >
+                        <SkipForward className="w-3 h-3" />
+                        跳过
+                      </button>
+                    </div>
+                  )}
+
+                  {step.status === StepStatus.SKIPPED && !isProcessing && (
                     <button
-                      onClick={() => onStartStep(step.id)}
-                      className="mt-2 w-full flex items-center justify-center gap-2 py-1.5 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 text-xs font-medium rounded transition-colors"
+                      onClick={() => onSkipStep(step.id, false)}
+                      className="mt-1 flex items-center gap-1 text-[10px] text-slate-400 hover:text-accent transition-colors"
                     >
-                      <PlayCircle className="w-3 h-3" />
-                      单步执行
+                      <Undo2 className="w-3 h-3" />
+                      已跳过，恢复到待执行
                     </button>
                   )}
                   
                   {isActive && isProcessing && (
-                    <div className="mt-2 flex items-center gap-2 text-xs text-accent font-medium animate-pulse">
-                      <Loader2 className="w-3 h-3 animate-spin" />
-                      {isAutoRunning ? 'Agent 正在自主优化...' : '正在扩展逻辑与内容...'}
-                    </div>
+                    isAwaitingReview ? (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-amber-600 font-medium">
+                        <Lock className="w-3 h-3" />
+                        等待审阅修改...
+                      </div>
+                    ) : critiqueStatus && !critiqueStatus.verdict ? (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-violet-600 font-medium animate-pulse">
+                        <ShieldCheck className="w-3 h-3" />
+                        同行评审中（第 {critiqueStatus.attempt} 版修订）...
+                      </div>
+                    ) : (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-accent font-medium animate-pulse">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {critiqueStatus?.verdict && !critiqueStatus.verdict.approved
+                          ? `评审未通过，正在按意见重做（第 ${critiqueStatus.attempt + 1} 版）...`
+                          : reviewMode === 'comments' ? '正在审阅并撰写批注...' : isAutoRunning ? 'Agent 正在自主优化...' : '正在扩展逻辑与内容...'}
+                        {candidateProgress && (
+                          <span className="text-slate-500">候选 {candidateProgress.index + 1}/{candidateProgress.total}</span>
+                        )}
+                        {sectionProgress && (
+                          <span className="text-slate-500">分段 {sectionProgress.index + 1}/{sectionProgress.total}</span>
+                        )}
+                      </div>
+                    )
                   )}
 
                   {step.status === StepStatus.COMPLETED && step.diffSummary && (
-                    <div className="mt-2 text-xs bg-green-50 text-green-700 p-2 rounded border border-green-100 animate-in fade-in slide-in-from-top-1">
-                      <strong>优化内容：</strong> {step.diffSummary}
+                    step.commentCount !== undefined ? (
+                      <div className="mt-2 text-xs bg-amber-50 text-amber-700 p-2 rounded border border-amber-100 animate-in fade-in slide-in-from-top-1">
+                        <strong className="flex items-center gap-1 mb-0.5">
+                          <MessageSquare className="w-3 h-3" />
+                          提出 {step.commentCount} 条批注
+                        </strong>
+                        {step.diffSummary}
+                      </div>
+                    ) : (
+                      <div className="mt-2 text-xs bg-green-50 text-green-700 p-2 rounded border border-green-100 animate-in fade-in slide-in-from-top-1">
+                        <strong>优化内容：</strong> {step.diffSummary}
+                      </div>
+                    )
+                  )}
+
+                  {step.status === StepStatus.COMPLETED && (() => {
+                    const deltas = scoreDelta(step.id);
+                    if (!deltas || deltas.length === 0) return null;
+                    const unchanged = deltas.every(d => d.delta === 0);
+                    return (
+                      <div className={`mt-2 flex flex-wrap items-center gap-1 text-[10px] ${unchanged ? 'text-amber-600' : 'text-slate-500'}`}>
+                        <BarChart3 className="w-3 h-3" />
+                        {unchanged ? '评分无变化' : deltas.filter(d => d.delta !== 0).map(d => (
+                          <span
+                            key={d.id}
+                            className={`px-1.5 py-0.5 rounded ${d.delta > 0 ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}
+                          >
+                            {d.name} {d.delta > 0 ? `+${d.delta}` : d.delta}
+                          </span>
+                        ))}
+                      </div>
+                    );
+                  })()}
+
+                  {step.status === StepStatus.COMPLETED && step.critiques && step.critiques.length > 0 && (
+                    <CritiqueCard critiques={step.critiques} />
+                  )}
+
+                  {(step.status === StepStatus.COMPLETED || step.status === StepStatus.FAILED) && step.losses && (
+                    <LossCard losses={step.losses} blocked={step.status === StepStatus.FAILED} />
+                  )}
+
+                  {step.status === StepStatus.COMPLETED && step.usage && (
+                    <div className="mt-1.5 text-[10px] text-slate-400 flex justify-between">
+                      <span>{describeUsage([step.usage]).tokens} · {(step.usage.latencyMs / 1000).toFixed(1)}s</span>
+                      <span>{describeUsage([step.usage]).cost}</span>
                     </div>
                   )}
                 </div>
@@ -278,6 +928,54 @@ export const PlanOverview: React.FC<PlanOverviewProps> = ({
         </div>
       </div>
 
+      {/* Usage & Budget */}
+      <div className="px-4 py-3 border-t border-slate-200 text-xs space-y-1.5">
+        <h4 className="font-bold text-slate-500 flex items-center gap-1.5">
+          <Coins className="w-3 h-3" />
+          用量与成本估算
+        </h4>
+        {[
+          { label: '本轮规划', usage: planUsage },
+          { label: '本轮步骤', usage: stepsUsage },
+          { label: '项目累计', usage: projectUsage }
+        ].map(row => (
+          <div key={row.label} className="flex justify-between text-slate-500">
+            <span>{row.label}</span>
+            <span className="font-mono">
+              {row.usage.tokens} · <span className="text-slate-700">{row.usage.cost}</span>
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <span className="text-slate-500">项目预算 (USD)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={budgetUsd ?? ''}
+            onChange={(e) => onBudgetChange(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+            placeholder="不限"
+            className="w-24 px-2 py-1 border border-slate-300 rounded text-right font-mono focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none"
+          />
+        </div>
+        {budgetUsd !== undefined && (
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${isOverBudget ? 'bg-red-500' : 'bg-accent'}`}
+              style={{ width: `${budgetUsd > 0 ? Math.min(100, projectCost / budgetUsd * 100) : 100}%` }}
+            />
+          </div>
+        )}
+        {isOverBudget && (
+          <p className="text-[10px] text-red-500">已超出预算，自动执行将不会继续。</p>
+        )}
+        {budgetUsd !== undefined && unpricedModels.length > 0 && (
+          <p className="text-[10px] text-amber-600">
+            模型 {unpricedModels.join('、')} 没有价格，预算无法计入其花费；请在设置中填写价格，否则自动执行不会启动。
+          </p>
+        )}
+      </div>
+
       {/* Iteration Footer */}
       <div className="p-4 border-t border-slate-200 bg-slate-50">
         <button
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { FolderOpen, X, Copy, Trash2, Pencil, Check, Clock } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { listProjects, duplicateProject, deleteProject } from '../services/projectStore';
+
+interface ProjectListProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentProjectId: string | null;
+  onOpenProject: (id: string) => void;
+  onRenameProject: (id: string, name: string) => Promise<void>;
+  onDeletedProject: (id: string) => void;
+  isProcessing: boolean;
+}
+
+export const ProjectList: React.FC<ProjectListProps> = ({
+  isOpen,
+  onClose,
+  currentProjectId,
+  onOpenProject,
+  onRenameProject,
+  onDeletedProject,
+  isProcessing
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        setLoadError(null);
+      })
+      .catch((err: Error) => setLoadError(err.message));
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`确定删除项目「${project.name}」吗？此操作不可恢复。`)) return;
+    await deleteProject(project.id);
+    onDeletedProject(project.id);
+    refresh();
+  };
+
+  const handleRenameSubmit = async (id: string) => {
+    const name = editingName.trim();
+    if (name) {
+      await onRenameProject(id, name);
+      refresh();
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg border border-slate-200 overflow-hidden scale-100 animate-in zoom-in-95 duration-200 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 shrink-0">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-slate-500" />
+            我的项目
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loadError && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{loadError}</p>
+          )}
+          {!loadError && projects.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-8">还没有保存的项目。分析文档后会自动保存到本地。</p>
+          )}
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <div
+                key={project.id}
+                className={`p-3 rounded-lg border flex items-center gap-3 group transition-all ${
+                  isCurrent ? 'bg-blue-50 border-accent' : 'bg-white border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  {editingId === project.id ? (
+                    <input
+                      className="w-full text-sm font-semibold border-b border-accent focus:outline-none bg-transparent"
+                      value={editingName}
+                      onChange={e => setEditingName(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') handleRenameSubmit(project.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onOpenProject(project.id)}
+                      disabled={isProcessing || isCurrent}
+                      className="block w-full text-left text-sm font-semibold text-slate-700 truncate hover:text-accent disabled:hover:text-slate-700 disabled:cursor-default"
+                      title={project.name}
+                    >
+                      {project.name}
+                    </button>
+                  )}
+                  <span className="flex items-center gap-1 text-[10px] text-slate-400 mt-0.5">
+                    <Clock className="w-3 h-3" />
+                    {new Date(project.updatedAt).toLocaleString('zh-CN')}
+                    {isCurrent && <span className="ml-1 font-bold text-accent">当前</span>}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {editingId === project.id ? (
+                    <button
+                      onClick={() => handleRenameSubmit(project.id)}
+                      className="p-1.5 text-accent hover:bg-blue-50 rounded transition-colors"
+                      title="保存名称"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => { setEditingId(project.id); setEditingName(project.name); }}
+                      className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                      title="重命名"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDuplicate(project.id)}
+                    className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                    title="复制项目"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    disabled={isProcessing && isCurrent}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors disabled:opacity-30"
+                    title="删除项目"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
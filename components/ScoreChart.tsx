@@ -0,0 +1,102 @@
+import React from 'react';
+import { DocumentVersion, RubricDimension } from '../types';
+
+interface ScoreChartProps {
+  rubric: RubricDimension[];
+  versions: DocumentVersion[]; // Versions of the current branch, oldest first
+}
+
+const DIMENSION_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2'];
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 8, right: 8, bottom: 20, left: 22 };
+
+/**
+ * Per-dimension rubric scores across the scored versions of the current branch, as a line chart
+ * with a before/after table below it.
+ */
+export const ScoreChart: React.FC<ScoreChartProps> = ({ rubric, versions }) => {
+  const scored = versions.filter(v => v.score);
+  if (scored.length === 0) return null;
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (scored.length === 1 ? plotWidth / 2 : (i / (scored.length - 1)) * plotWidth);
+  const y = (score: number) => PAD.top + ((10 - score) / 9) * plotHeight;
+
+  const first = scored[0];
+  const last = scored[scored.length - 1];
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {[1, 4, 7, 10].map(tick => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" strokeDasharray={tick === 1 ? undefined : '2 3'} />
+            <text x={PAD.left - 6} y={y(tick) + 3} textAnchor="end" fontSize="8" fill="#94a3b8">{tick}</text>
+          </g>
+        ))}
+        {scored.map((v, i) => (
+          <text key={v.id} x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize="8" fill="#94a3b8">
+            v{v.version}
+            <title>{v.label}</title>
+          </text>
+        ))}
+        {rubric.map((dimension, d) => {
+          const color = DIMENSION_COLORS[d % DIMENSION_COLORS.length];
+          const points = scored
+            .map((v, i) => ({ i, v, score: v.score!.scores[dimension.id] }))
+            .filter(p => p.score !== undefined);
+          return (
+            <g key={dimension.id}>
+              <polyline
+                points={points.map(p => `${x(p.i)},${y(p.score)}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth="1.5"
+                strokeLinejoin="round"
+              />
+              {points.map(p => (
+                <circle key={p.v.id} cx={x(p.i)} cy={y(p.score)} r="2.5" fill={color}>
+                  <title>{`v${p.v.version} ${p.v.label}\n${dimension.name}：${p.score}${p.v.score!.rationales[dimension.id] ? `\n${p.v.score!.rationales[dimension.id]}` : ''}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-normal">维度</th>
+            <th className="text-right font-normal">v{first.version}</th>
+            <th className="text-right font-normal">v{last.version}</th>
+            <th className="text-right font-normal">变化</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rubric.map((dimension, d) => {
+            const before = first.score!.scores[dimension.id];
+            const after = last.score!.scores[dimension.id];
+            const delta = before !== undefined && after !== undefined ? after - before : undefined;
+            return (
+              <tr key={dimension.id} title={dimension.criteria}>
+                <td className="py-0.5 text-slate-600">
+                  <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: DIMENSION_COLORS[d % DIMENSION_COLORS.length] }} />
+                  {dimension.name}
+                </td>
+                <td className="text-right font-mono text-slate-500">{before ?? '–'}</td>
+                <td className="text-right font-mono text-slate-700">{after ?? '–'}</td>
+                <td className={`text-right font-mono ${delta === undefined || delta === 0 ? 'text-slate-400' : delta > 0 ? 'text-green-600' : 'text-red-500'}`}>
+                  {delta === undefined ? '–' : delta > 0 ? `+${delta}` : delta}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,6 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Save, X, Key, Cpu, Globe, Server } from 'lucide-react';
-import { AppConfig, AVAILABLE_MODELS, OPENAI_COMPATIBLE_PRESETS } from '../types';
+import { Settings, Save, X, Key, Cpu, Globe, Server, Radio, RotateCw, Scissors, Coins, FileText, Languages, ShieldCheck, BarChart3, Workflow, FileWarning } from 'lucide-react';
+import { AppConfig, ContentGuardPolicy, LLMProvider, ModelOverride, ModelPhase, ModelPrice } from '../types';
+import { DEFAULT_RETRY_POLICY, DEFAULT_RATE_LIMIT } from '../services/retryService';
+import { DEFAULT_CHUNKING } from '../services/chunkService';
+import { DEFAULT_CRITIC } from '../services/criticService';
+import { DEFAULT_CONTENT_GUARD } from '../services/contentGuard';
+import { DEFAULT_MODEL_PRICES } from '../services/usageService';
+import { TemplateEditor } from './TemplateEditor';
+import { ModelOverrideFields } from './ModelOverrideFields';
+import { MODEL_PHASES, hasOverride } from '../services/modelRouting';
+import { LANGUAGES } from '../services/languageService';
+import { PROVIDERS, getProvider, isProviderConfigured } from '../services/providers';
+
+type PhaseOverrides = Partial<Record<ModelPhase, ModelOverride>>;
+
+// Configs saved before phases existed kept the critic model on the critic policy
+const initialPhases = (config: AppConfig): PhaseOverrides =>
+  config.phases ?? (config.critic?.model ? { critique: { model: config.critic.model } } : {});
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -14,6 +30,20 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
   const [provider, setProvider] = useState<AppConfig['provider']>(config.provider || 'gemini');
   const [model, setModel] = useState(config.model);
   const [baseUrl, setBaseUrl] = useState(config.baseUrl || '');
+  const [streaming, setStreaming] = useState(config.streaming !== false);
+  const [retry, setRetry] = useState(config.retry || DEFAULT_RETRY_POLICY);
+  const [rateLimit, setRateLimit] = useState(config.rateLimit || DEFAULT_RATE_LIMIT);
+  const [chunking, setChunking] = useState(config.chunking || DEFAULT_CHUNKING);
+  const [critic, setCritic] = useState(config.critic || DEFAULT_CRITIC);
+  const [contentGuard, setContentGuard] = useState(config.contentGuard || DEFAULT_CONTENT_GUARD);
+  const [scoring, setScoring] = useState(config.scoring !== false);
+  const [phases, setPhases] = useState<PhaseOverrides>(initialPhases(config));
+  const [credentials, setCredentials] = useState(config.credentials || {});
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(config.prices || {});
+  const [templates, setTemplates] = useState(config.templates || {});
+  const [documentLanguage, setDocumentLanguage] = useState(config.documentLanguage || 'auto');
+  const [translateTo, setTranslateTo] = useState(config.translateTo || '');
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -21,13 +51,73 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
       setProvider(config.provider || 'gemini');
       setModel(config.model);
       setBaseUrl(config.baseUrl || '');
+      setStreaming(config.streaming !== false);
+      setRetry(config.retry || DEFAULT_RETRY_POLICY);
+      setRateLimit(config.rateLimit || DEFAULT_RATE_LIMIT);
+      setChunking(config.chunking || DEFAULT_CHUNKING);
+      setCritic(config.critic || DEFAULT_CRITIC);
+      setContentGuard(config.contentGuard || DEFAULT_CONTENT_GUARD);
+      setScoring(config.scoring !== false);
+      setPhases(initialPhases(config));
+      setCredentials(config.credentials || {});
+      setPrices(config.prices || {});
+      setTemplates(config.templates || {});
+      setDocumentLanguage(config.documentLanguage || 'auto');
+      setTranslateTo(config.translateTo || '');
     }
   }, [isOpen, config]);
 
   if (!isOpen) return null;
 
+  const definition = getProvider(provider);
+  const draft: AppConfig = {
+    apiKey, provider, model, baseUrl, streaming, retry, rateLimit, chunking, scoring, prices, templates,
+    documentLanguage,
+    critic: { ...critic, model: undefined },
+    contentGuard,
+    phases: Object.fromEntries(Object.entries(phases).filter(([, o]) => hasOverride(o))),
+    credentials: { ...credentials, [provider]: { apiKey, baseUrl: baseUrl || undefined } },
+    translateTo: translateTo || undefined,
+    // Edited in the plan panel; candidate models are dropped with the provider they belong to
+    candidates: provider === config.provider
+      ? config.candidates
+      : config.candidates?.map(({ temperature }) => ({ temperature }))
+  };
+
+  // Every model with a known price, plus the selected one so custom models can be priced (local models are free)
+  const pricedModels = Array.from(new Set([
+    ...(provider === 'ollama' ? [] : [model]),
+    ...Object.values(phases).filter(o => o?.model && (o.provider || provider) !== 'ollama').map(o => o!.model!),
+    ...Object.keys(prices),
+    ...Object.keys(DEFAULT_MODEL_PRICES)
+  ])).filter(Boolean);
+
+  const updatePrice = (id: string, field: keyof ModelPrice, value: number) => {
+    const current = prices[id] || DEFAULT_MODEL_PRICES[id] || { input: 0, output: 0 };
+    setPrices({ ...prices, [id]: { ...current, [field]: value } });
+  };
+
+  const handleProviderChange = (next: LLMProvider) => {
+    if (next === provider) return;
+    setProvider(next);
+    // Credentials are kept per provider so that phase and step overrides can switch to it later
+    setCredentials({ ...credentials, [provider]: { apiKey, baseUrl: baseUrl || undefined } });
+    setApiKey(credentials[next]?.apiKey ?? apiKey);
+    // Endpoints are provider specific, and a model id rarely carries over
+    setBaseUrl(credentials[next]?.baseUrl || '');
+    const models = getProvider(next).models;
+    if (!models.find(m => m.id === model)) {
+      setModel(models[0].id);
+    }
+    // Phase models that followed the main provider do not carry over either
+    setPhases(Object.fromEntries(Object.entries(phases).map(([phase, o]) => [
+      phase,
+      o && !o.provider && o.model && !models.find(m => m.id === o.model) ? { ...o, model: undefined } : o
+    ])));
+  };
+
   const handleSave = () => {
-    onSave({ apiKey, provider, model, baseUrl });
+    onSave(draft);
     onClose();
   };
 
@@ -55,114 +145,82 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
               模型服务商
             </label>
             <div className="grid grid-cols-2 gap-3">
-              <button
-                type="button"
-                onClick={() => {
-                   setProvider('gemini');
-                   // Reset to a default gemini model if switching back
-                   if (!AVAILABLE_MODELS.find(m => m.id === model)) {
-                     setModel(AVAILABLE_MODELS[0].id);
-                   }
-                }}
-                className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all ${
-                  provider === 'gemini' 
-                    ? 'border-accent bg-blue-50 text-accent font-medium' 
-                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
-                }`}
-              >
-                <span className="text-sm">Google Gemini</span>
-              </button>
-              <button
-                type="button"
-                onClick={() => {
-                  setProvider('openai');
-                  // Reset to a default openai model if switching
-                  if (AVAILABLE_MODELS.find(m => m.id === model)) {
-                    setModel('gpt-4o');
-                  }
-                }}
-                className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all ${
-                  provider === 'openai' 
-                    ? 'border-accent bg-blue-50 text-accent font-medium' 
-                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
-                }`}
-              >
-                <span className="text-sm">OpenAI 兼容</span>
-              </button>
+              {PROVIDERS.map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => handleProviderChange(p.id)}
+                  className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all ${
+                    provider === p.id 
+                      ? 'border-accent bg-blue-50 text-accent font-medium' 
+                      : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="text-sm">{p.name}</span>
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* API Key Input */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
-              <Key className="w-4 h-4 text-slate-400" />
-              API Key
-            </label>
-            <input
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder={provider === 'gemini' ? "Gemini API Key" : "sk-..."}
-              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
-            />
-          </div>
+          {/* Provider Fields */}
+          {definition.fields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                {field.key === 'apiKey' ? <Key className="w-4 h-4 text-slate-400" /> : <Globe className="w-4 h-4 text-slate-400" />}
+                {field.label}
+              </label>
+              <input
+                type={field.secret ? 'password' : 'text'}
+                value={field.key === 'apiKey' ? apiKey : baseUrl}
+                onChange={(e) => (field.key === 'apiKey' ? setApiKey : setBaseUrl)(e.target.value)}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+              />
+              {field.help && (
+                <p className="text-xs text-slate-500">{field.help}</p>
+              )}
+            </div>
+          ))}
 
-          {/* OpenAI Specific Fields */}
-          {provider === 'openai' && (
-            <div className="space-y-4 animate-in fade-in slide-in-from-top-2">
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
-                  <Globe className="w-4 h-4 text-slate-400" />
-                  Base URL (选填)
-                </label>
-                <input
-                  type="text"
-                  value={baseUrl}
-                  onChange={(e) => setBaseUrl(e.target.value)}
-                  placeholder="https://api.openai.com/v1"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
-                />
-                <p className="text-xs text-slate-500">
-                  如果不填，默认为 https://api.openai.com/v1。使用 DeepSeek 等服务时请填写对应的 Endpoint。
-                </p>
-              </div>
+          {/* Free-form model id with presets */}
+          {definition.allowCustomModel && (
+            <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+               <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                 <Cpu className="w-4 h-4 text-slate-400" />
+                 模型名称 (Model ID)
+               </label>
+               
+               <div className="flex flex-wrap gap-2 mb-2">
+                 {definition.models.map(preset => (
+                   <button
+                     key={preset.id}
+                     onClick={() => setModel(preset.id)}
+                     className={`text-xs px-2 py-1 rounded border ${model === preset.id ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                   >
+                     {preset.name}
+                   </button>
+                 ))}
+               </div>
 
-              <div className="space-y-2">
-                 <label className="text-sm font-medium text-slate-700">模型名称 (Model ID)</label>
-                 
-                 {/* Presets for OpenAI */}
-                 <div className="flex flex-wrap gap-2 mb-2">
-                   {OPENAI_COMPATIBLE_PRESETS.map(preset => (
-                     <button
-                       key={preset.id}
-                       onClick={() => setModel(preset.id)}
-                       className={`text-xs px-2 py-1 rounded border ${model === preset.id ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
-                     >
-                       {preset.name}
-                     </button>
-                   ))}
-                 </div>
-
-                 <input
-                  type="text"
-                  value={model}
-                  onChange={(e) => setModel(e.target.value)}
-                  placeholder="e.g. gpt-4o, deepseek-chat"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
-                />
-              </div>
+               <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={`e.g. ${definition.models.map(m => m.id).slice(0, 2).join(', ')}`}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+              />
             </div>
           )}
 
-          {/* Gemini Model Selection */}
-          {provider === 'gemini' && (
+          {/* Fixed model list */}
+          {!definition.allowCustomModel && (
             <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
               <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
                 <Cpu className="w-4 h-4 text-slate-400" />
                 选择模型 (LLM)
               </label>
               <div className="space-y-2">
-                {AVAILABLE_MODELS.map((m) => (
+                {definition.models.map((m) => (
                   <label 
                     key={m.id}
                     className={`flex items-center p-3 border rounded-lg cursor-pointer transition-all ${
@@ -192,6 +250,305 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
               </div>
             </div>
           )}
+
+          {/* Per-phase Models */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <Workflow className="w-4 h-4 text-slate-400" />
+              分阶段模型
+            </label>
+            {MODEL_PHASES.map(phase => (
+              <div key={phase.id} className="space-y-1">
+                <span className="block text-xs text-slate-500">
+                  <span className="font-medium text-slate-600">{phase.name}</span> · {phase.description}
+                </span>
+                <ModelOverrideFields
+                  value={phases[phase.id] || {}}
+                  onChange={(o) => setPhases({ ...phases, [phase.id]: o })}
+                  inheritedProvider={provider}
+                  listId={`phase-models-${phase.id}`}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-slate-500">
+              留空的项沿用上方的主设置；单个步骤还可在计划卡片的编辑中单独指定。切换到其他服务商前，需先在上方选中该服务商填写 API Key 并保存一次。
+            </p>
+          </div>
+
+          {/* Language */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <Languages className="w-4 h-4 text-slate-400" />
+              文档语言
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="block text-xs text-slate-500">原文语言</span>
+                <select
+                  value={documentLanguage}
+                  onChange={(e) => setDocumentLanguage(e.target.value)}
+                  className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm bg-white"
+                >
+                  <option value="auto">自动检测</option>
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <span className="block text-xs text-slate-500">边优化边翻译为</span>
+                <select
+                  value={translateTo}
+                  onChange={(e) => setTranslateTo(e.target.value)}
+                  className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm bg-white"
+                >
+                  <option value="">不翻译</option>
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              分析结果使用原文语言；修订后的正文保持原文语言，设置了翻译目标时则在优化的同时翻译。
+            </p>
+          </div>
+
+          {/* Streaming Toggle */}
+          <label className="flex items-start gap-3 p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+            <input
+              type="checkbox"
+              checked={streaming}
+              onChange={(e) => setStreaming(e.target.checked)}
+              className="w-4 h-4 mt-0.5 text-accent border-slate-300 rounded focus:ring-accent"
+            />
+            <div>
+              <span className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                <Radio className="w-4 h-4 text-slate-400" />
+                流式输出
+              </span>
+              <span className="block text-xs text-slate-500 mt-0.5">
+                执行步骤时实时预览生成中的文档。若服务不支持流式接口，请关闭此项。
+              </span>
+            </div>
+          </label>
+
+          {/* Retry & Rate Limit */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <RotateCw className="w-4 h-4 text-slate-400" />
+              重试与限流
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { label: '最大重试次数', value: retry.maxRetries, min: 0, onChange: (v: number) => setRetry({ ...retry, maxRetries: v }) },
+                { label: '初始等待 (秒)', value: retry.baseDelayMs / 1000, min: 0, onChange: (v: number) => setRetry({ ...retry, baseDelayMs: v * 1000 }) },
+                { label: '最大并发请求', value: rateLimit.maxConcurrent, min: 1, onChange: (v: number) => setRateLimit({ ...rateLimit, maxConcurrent: v }) },
+                { label: '每分钟请求上限 (0 不限)', value: rateLimit.requestsPerMinute, min: 0, onChange: (v: number) => setRateLimit({ ...rateLimit, requestsPerMinute: v }) },
+              ].map(field => (
+                <div key={field.label} className="space-y-1">
+                  <span className="block text-xs text-slate-500">{field.label}</span>
+                  <input
+                    type="number"
+                    min={field.min}
+                    value={field.value}
+                    onChange={(e) => field.onChange(Math.max(field.min, Number(e.target.value) || 0))}
+                    className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              遇到 429、5xx 或网络错误时按指数退避自动重试，429 响应会遵循服务端的 Retry-After；要求等待超过 {Math.round(retry.maxDelayMs / 1000)} 秒时直接报错，不再等待。
+            </p>
+          </div>
+
+          {/* Long Document Chunking */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={chunking.enabled}
+                onChange={(e) => setChunking({ ...chunking, enabled: e.target.checked })}
+                className="w-4 h-4 text-accent border-slate-300 rounded focus:ring-accent"
+              />
+              <Scissors className="w-4 h-4 text-slate-400" />
+              长文档分段处理
+            </label>
+            {chunking.enabled && (
+              <div className="grid grid-cols-2 gap-3 animate-in fade-in slide-in-from-top-2">
+                <div className="space-y-1">
+                  <span className="block text-xs text-slate-500">单段上限 (tokens)</span>
+                  <input
+                    type="number"
+                    min={500}
+                    value={chunking.maxSectionTokens}
+                    onChange={(e) => setChunking({ ...chunking, maxSectionTokens: Math.max(500, Number(e.target.value) || 0) })}
+                    className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <span className="block text-xs text-slate-500">规划输入上限 (tokens)</span>
+                  <input
+                    type="number"
+                    min={1000}
+                    value={chunking.maxPlanningTokens}
+                    onChange={(e) => setChunking({ ...chunking, maxPlanningTokens: Math.max(1000, Number(e.target.value) || 0) })}
+                    className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+                  />
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              超过单段上限的文档按标题（或 token 预算）拆分后逐段执行再拼接；超过规划上限的文档先分段摘要再制定计划。
+            </p>
+          </div>
+
+          {/* Critic Pass */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={critic.enabled}
+                onChange={(e) => setCritic({ ...critic, enabled: e.target.checked })}
+                className="w-4 h-4 text-accent border-slate-300 rounded focus:ring-accent"
+              />
+              <ShieldCheck className="w-4 h-4 text-slate-400" />
+              同行评审（Critic）
+            </label>
+            {critic.enabled && (
+              <div className="grid grid-cols-2 gap-3 animate-in fade-in slide-in-from-top-2">
+                <div className="space-y-1">
+                  <span className="block text-xs text-slate-500">驳回后最多重做次数</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={critic.maxRetries}
+                    onChange={(e) => setCritic({ ...critic, maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+                    className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+                  />
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              每个步骤完成后由评审模型（在“分阶段模型”中设置）对照步骤指令与差距分析审核修订，检查内容丢失、结构破坏和领域纯粹性问题；驳回时带着评审意见自动重做。会增加调用次数与费用。
+            </p>
+          </div>
+
+          {/* Content Guard */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <FileWarning className="w-4 h-4 text-slate-400" />
+              内容保护
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="block text-xs text-slate-500">发现内容丢失时</span>
+                <select
+                  value={contentGuard.mode}
+                  onChange={(e) => setContentGuard({ ...contentGuard, mode: e.target.value as ContentGuardPolicy['mode'] })}
+                  className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm bg-white"
+                >
+                  <option value="warn">提交并在步骤上警告</option>
+                  <option value="block">阻止提交，步骤标记为失败</option>
+                  <option value="off">不检查</option>
+                </select>
+              </div>
+              {contentGuard.mode !== 'off' && (
+                <div className="space-y-1">
+                  <span className="block text-xs text-slate-500">篇幅缩减超过 (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={contentGuard.maxShrinkPercent}
+                    onChange={(e) => setContentGuard({ ...contentGuard, maxShrinkPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                    className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none transition-all text-sm font-mono"
+                  />
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">
+              提交步骤结果前与上一版本比对：删除的标题，减少的表格、代码块与公式，消失的数字和专有名词，以及篇幅大幅缩减。不调用模型，无额外费用。
+            </p>
+          </div>
+
+          {/* Rubric Scoring */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scoring}
+                onChange={(e) => setScoring(e.target.checked)}
+                className="w-4 h-4 text-accent border-slate-300 rounded focus:ring-accent"
+              />
+              <BarChart3 className="w-4 h-4 text-slate-400" />
+              版本质量评分
+            </label>
+            <p className="text-xs text-slate-500">
+              按规划时制定的领域量规在后台为每个版本逐维度打分（1–10），用于判断步骤是否真正提升了质量。每个版本多一次调用。
+            </p>
+          </div>
+
+          {/* Prompt Templates */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <FileText className="w-4 h-4 text-slate-400" />
+              提示词模板
+            </label>
+            <button
+              type="button"
+              onClick={() => setIsTemplateEditorOpen(true)}
+              className="w-full flex items-center justify-between px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              <span>编辑模板 / 导入导出模板包</span>
+              <span className="text-xs text-slate-400">
+                {Object.keys(templates).length > 0 ? `${Object.keys(templates).length} 个已自定义` : '使用默认模板'}
+              </span>
+            </button>
+          </div>
+
+          {/* Price Table */}
+          <details className="group space-y-2">
+            <summary className="text-sm font-medium text-slate-700 flex items-center gap-2 cursor-pointer select-none">
+              <Coins className="w-4 h-4 text-slate-400" />
+              模型价格表 (USD / 百万 tokens)
+            </summary>
+            <div className="mt-2 space-y-1.5">
+              <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-xs text-slate-500">
+                <span>模型</span>
+                <span>输入</span>
+                <span>输出</span>
+              </div>
+              {pricedModels.map(id => {
+                const price = prices[id] || DEFAULT_MODEL_PRICES[id];
+                return (
+                  <div key={id} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                    <span className={`text-xs font-mono truncate ${id === model ? 'text-accent font-semibold' : 'text-slate-600'}`} title={id}>{id}</span>
+                    {(['input', 'output'] as const).map(field => (
+                      <input
+                        key={field}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price?.[field] ?? ''}
+                        placeholder="未定价"
+                        onChange={(e) => updatePrice(id, field, Math.max(0, Number(e.target.value) || 0))}
+                        className="w-full px-2 py-1 border border-slate-300 rounded text-xs font-mono focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none"
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+              <div className="flex justify-between items-center pt-1">
+                <p className="text-xs text-slate-500">
+                  用于估算每步与项目成本；Ollama 本地模型不计费。
+                </p>
+                {Object.keys(prices).length > 0 && (
+                  <button onClick={() => setPrices({})} className="text-xs text-accent hover:underline shrink-0">
+                    恢复默认
+                  </button>
+                )}
+              </div>
+            </div>
+          </details>
         </div>
 
         <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 sticky bottom-0">
@@ -203,7 +560,7 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
           </button>
           <button
             onClick={handleSave}
-            disabled={!apiKey}
+            disabled={!isProviderConfigured(draft)}
             className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-accent hover:bg-blue-600 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Save className="w-4 h-4" />
@@ -211,6 +568,13 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose,
           </button>
         </div>
       </div>
+
+      <TemplateEditor
+        isOpen={isTemplateEditorOpen}
+        onClose={() => setIsTemplateEditorOpen(false)}
+        templates={templates}
+        onSave={setTemplates}
+      />
     </div>
   );
 };
\ No newline at end of file
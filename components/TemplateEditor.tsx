@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, X, Save, RotateCcw, Upload, Download, Eye, Braces } from 'lucide-react';
+import { PromptTemplate, PromptTemplateId } from '../types';
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_IDS,
+  TEMPLATE_VARIABLES,
+  renderTemplate,
+  sampleVariables,
+  exportTemplatePack,
+  importTemplatePack
+} from '../services/promptTemplates';
+
+type TemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplate>>;
+
+interface TemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: TemplateOverrides;
+  onSave: (templates: TemplateOverrides) => void;
+}
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ isOpen, onClose, templates, onSave }) => {
+  const [drafts, setDrafts] = useState<TemplateOverrides>(templates);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('plan');
+  const [packName, setPackName] = useState('我的评审风格');
+  const [importError, setImportError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(templates);
+      setImportError(null);
+    }
+  }, [isOpen, templates]);
+
+  if (!isOpen) return null;
+
+  const template = drafts[selectedId] ?? DEFAULT_TEMPLATES[selectedId];
+  const isCustomized = (id: PromptTemplateId) => !!drafts[id];
+  const preview = renderTemplate(template, sampleVariables(selectedId));
+
+  const updateTemplate = (changes: Partial<Pick<PromptTemplate, 'system' | 'body'>>) => {
+    setDrafts({ ...drafts, [selectedId]: { ...template, ...changes } });
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const placeholder = `{${name}}`;
+    const start = textarea?.selectionStart ?? template.body.length;
+    const end = textarea?.selectionEnd ?? start;
+    updateTemplate({ body: template.body.slice(0, start) + placeholder + template.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const resetTemplate = () => {
+    const { [selectedId]: _removed, ...rest } = drafts;
+    setDrafts(rest);
+  };
+
+  const handleSave = () => {
+    // Every saved edit gets a new version so exported packs can be told apart
+    const saved: TemplateOverrides = {};
+    for (const id of TEMPLATE_IDS) {
+      const draft = drafts[id];
+      if (!draft) continue;
+      const previous = templates[id] ?? DEFAULT_TEMPLATES[id];
+      const changed = draft.body !== previous.body || draft.system !== previous.system;
+      saved[id] = changed ? { ...draft, version: previous.version + 1 } : draft;
+    }
+    onSave(saved);
+    onClose();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplatePack(packName, drafts)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${packName || 'templates'}.docrefine-templates.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = importTemplatePack(await file.text());
+      setDrafts({ ...drafts, ...pack.templates });
+      setPackName(pack.name);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl border border-slate-200 overflow-hidden animate-in zoom-in-95 duration-200 h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 shrink-0">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-slate-500" />
+            提示词模板库
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Template List */}
+          <div className="w-56 border-r border-slate-100 p-3 space-y-1 overflow-y-auto shrink-0">
+            {TEMPLATE_IDS.map(id => {
+              const t = drafts[id] ?? DEFAULT_TEMPLATES[id];
+              return (
+                <button
+                  key={id}
+                  onClick={() => setSelectedId(id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                    selectedId === id ? 'bg-blue-50 text-accent font-medium' : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="block truncate">{t.name}</span>
+                  <span className="block text-[10px] text-slate-400 mt-0.5">
+                    v{t.version}{isCustomized(id) ? ' · 已自定义' : ' · 默认'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3 overflow-y-auto">
+            <p className="text-xs text-slate-500">{template.description}</p>
+
+            {template.system !== undefined && (
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-600">系统指令 (System)</label>
+                <textarea
+                  value={template.system}
+                  onChange={(e) => updateTemplate({ system: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none resize-none"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1 flex-1 flex flex-col min-h-[16rem]">
+              <label className="text-xs font-medium text-slate-600">模板正文</label>
+              <textarea
+                ref={bodyRef}
+                value={template.body}
+                onChange={(e) => updateTemplate({ body: e.target.value })}
+                className="flex-1 w-full px-3 py-2 border border-slate-300 rounded-lg text-xs font-mono leading-relaxed focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none resize-none"
+              />
+            </div>
+
+            {TEMPLATE_VARIABLES[selectedId].length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Braces className="w-3.5 h-3.5 text-slate-400" />
+                {TEMPLATE_VARIABLES[selectedId].map(v => (
+                  <button
+                    key={v.name}
+                    onClick={() => insertVariable(v.name)}
+                    title={v.description}
+                    className="text-[11px] font-mono px-1.5 py-0.5 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+                  >
+                    {`{${v.name}}`}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600 flex items-center gap-1.5">
+                <Eye className="w-3.5 h-3.5" />
+                预览（示例变量）
+              </label>
+              <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-3">
+                {preview.systemInstruction && `[System] ${preview.systemInstruction}\n\n`}
+                {preview.prompt}
+              </pre>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex items-center gap-3 shrink-0">
+          <button
+            onClick={resetTemplate}
+            disabled={!isCustomized(selectedId)}
+            className="flex items-center gap-1.5 text-sm text-slate-600 hover:text-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4" />
+            恢复默认
+          </button>
+          <button
+            onClick={() => setDrafts({})}
+            disabled={Object.keys(drafts).length === 0}
+            className="text-sm text-slate-600 hover:text-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            全部恢复默认
+          </button>
+
+          <div className="flex-1 flex items-center justify-end gap-2">
+            {importError && <span className="text-xs text-red-500 truncate">{importError}</span>}
+            <input
+              value={packName}
+              onChange={(e) => setPackName(e.target.value)}
+              placeholder="模板包名称"
+              className="w-36 px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-accent/20 focus:border-accent outline-none"
+            />
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              导入模板包
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={Object.keys(drafts).length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3.5 h-3.5" />
+              导出模板包
+            </button>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-accent hover:bg-blue-600 rounded-lg shadow-sm transition-all"
+          >
+            <Save className="w-4 h-4" />
+            保存模板
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
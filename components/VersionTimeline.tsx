@@ -0,0 +1,121 @@
+import React from 'react';
+import { History, RotateCcw, GitBranch, Clock, X, PenLine } from 'lucide-react';
+import { DocumentVersion } from '../types';
+import { getLineage, versionsDiscardedByRestore } from '../services/historyService';
+
+interface VersionTimelineProps {
+  versions: DocumentVersion[];
+  headVersionId: string | null;
+  onRestore: (versionId: string) => void;
+  onBranch: (versionId: string) => void;
+  onClose: () => void;
+  isProcessing: boolean;
+}
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({
+  versions,
+  headVersionId,
+  onRestore,
+  onBranch,
+  onClose,
+  isProcessing
+}) => {
+  const lineageIds = new Set(getLineage(versions, headVersionId).map(v => v.id));
+  const ordered = [...versions].sort((a, b) => b.createdAt - a.createdAt);
+
+  const handleRestore = (version: DocumentVersion) => {
+    const discarded = versionsDiscardedByRestore(versions, headVersionId, version.id);
+    const branched = discarded.filter(v => !lineageIds.has(v.id)).length;
+    if (discarded.length > 0 && !window.confirm(
+      `恢复到 v${version.version} 将丢弃其后的所有修订${branched ? `，以及从这些修订分出的 ${branched} 个分支版本` : ''}，确定继续吗？`
+    )) {
+      return;
+    }
+    onRestore(version.id);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-slate-200 w-80 shrink-0 overflow-hidden">
+      <div className="h-16 px-5 border-b border-slate-200 flex items-center justify-between shrink-0">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-400" />
+          版本历史
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded transition-colors"
+          title="关闭"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+        {ordered.map(version => {
+          const isHead = version.id === headVersionId;
+          const onCurrentBranch = lineageIds.has(version.id);
+
+          return (
+            <div
+              key={version.id}
+              className={`p-3 rounded-lg border transition-all group ${
+                isHead
+                  ? 'bg-blue-50 border-accent shadow-sm'
+                  : onCurrentBranch
+                    ? 'bg-white border-slate-200'
+                    : 'bg-slate-50 border-dashed border-slate-200 opacity-75'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-[10px] font-bold font-mono px-1.5 py-0.5 rounded bg-slate-800 text-white">
+                  v{version.version}
+                </span>
+                <span className="text-sm font-semibold text-slate-700 truncate flex-1" title={version.label}>
+                  {version.label}
+                </span>
+                {version.manual && (
+                  <span className="flex items-center gap-0.5 text-[10px] font-bold text-amber-600 shrink-0" title="手动编辑产生的版本">
+                    <PenLine className="w-3 h-3" />
+                    手动
+                  </span>
+                )}
+                {isHead && <span className="text-[10px] font-bold text-accent shrink-0">当前</span>}
+                {!onCurrentBranch && <span className="text-[10px] font-bold text-slate-400 shrink-0">其他分支</span>}
+              </div>
+
+              <div className="flex items-center gap-1 text-[10px] text-slate-400 mb-1">
+                <Clock className="w-3 h-3" />
+                {new Date(version.createdAt).toLocaleString('zh-CN')}
+              </div>
+
+              {version.diffSummary && (
+                <p className="text-xs text-slate-500 leading-relaxed line-clamp-3" title={version.diffSummary}>
+                  {version.diffSummary}
+                </p>
+              )}
+
+              {!isHead && !isProcessing && (
+                <div className="mt-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleRestore(version)}
+                    className="flex-1 flex items-center justify-center gap-1 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:border-slate-300 rounded transition-colors"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    恢复此版本
+                  </button>
+                  <button
+                    onClick={() => onBranch(version.id)}
+                    className="flex-1 flex items-center justify-center gap-1 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:border-slate-300 rounded transition-colors"
+                  >
+                    <GitBranch className="w-3 h-3" />
+                    从此分支
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
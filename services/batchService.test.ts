@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { RunReport, StepStatus } from '../types';
+import { createBatchItem, formatRunSummary, progressFromEvent, requeueItem, statusAfterRun } from './batchService';
+
+const report = (changes: Partial<RunReport> = {}): RunReport => ({
+  startedAt: 0,
+  finishedAt: 1,
+  provider: 'openai',
+  model: 'test-model',
+  inputChars: 100,
+  outputChars: 120,
+  usage: [],
+  estimatedCostUsd: 0.25,
+  iterations: [{
+    iteration: 1,
+    analysis: { category: '技术报告' } as RunReport['iterations'][number]['analysis'],
+    steps: [
+      { id: 'a', name: '润色语言', status: StepStatus.COMPLETED, diffSummary: '统一了术语' },
+      { id: 'b', name: '补充数据', status: StepStatus.FAILED, error: '内容保护已阻止提交', losses: [{ kind: 'number', items: ['42'] }] },
+      { id: 'c', name: '调整结构', status: StepStatus.PENDING }
+    ]
+  }],
+  ...changes
+});
+
+describe('formatRunSummary', () => {
+  it('lists every step with its summary, failure and losses', () => {
+    const summary = formatRunSummary({ ...createBatchItem('report.md', 'text'), report: report() });
+    expect(summary).toContain('# report.md');
+    expect(summary).toContain('- 字符数：100 → 120');
+    expect(summary).toContain('- 估算费用：$0.25\n');
+    expect(summary).toContain('## 第 1 轮：技术报告');
+    expect(summary).toContain('### ✓ 润色语言\n\n统一了术语');
+    expect(summary).toContain('### ✗ 补充数据\n\n> 失败：内容保护已阻止提交');
+    expect(summary).toContain('> 可能丢失的数字：42');
+    expect(summary).toContain('### … 调整结构\n\n> 未执行');
+    expect(summary.endsWith('\n')).toBe(true);
+  });
+
+  it('marks the cost of unpriced models as a lower bound', () => {
+    const summary = formatRunSummary({ ...createBatchItem('a.md', 'text'), report: report({ unpriced: true }) });
+    expect(summary).toContain('- 估算费用：$0.25+（部分模型未定价，未计入）');
+  });
+
+  it('reports documents that were not processed', () => {
+    expect(formatRunSummary(createBatchItem('a.md', 'text'))).toBe('# a.md\n\n尚未处理。');
+    expect(formatRunSummary({ ...createBatchItem('a.md', 'text'), error: 'boom' })).toContain('处理失败：boom');
+  });
+});
+
+describe('batch items', () => {
+  it('derives the status from how the run ended', () => {
+    expect(statusAfterRun(report())).toBe('done');
+    expect(statusAfterRun(report({ stoppedReason: 'budget' }))).toBe('done');
+    expect(statusAfterRun(report({ stoppedReason: 'error' }))).toBe('failed');
+    expect(statusAfterRun(report({ stoppedReason: 'cancelled' }))).toBe('cancelled');
+  });
+
+  it('clears progress when requeued and counts the attempt', () => {
+    const item = { ...createBatchItem('a.md', 'text'), status: 'failed' as const, stepsDone: 2, stepsTotal: 3, retries: 1, report: report() };
+    const next = requeueItem(item);
+    expect(next).toMatchObject({ id: item.id, status: 'queued', attempts: 2, stepsDone: 0, stepsTotal: 0, retries: 0 });
+    expect(next.report).toBeUndefined();
+  });
+
+  it('tracks progress from run events', () => {
+    const item = createBatchItem('a.md', 'text');
+    const step = report().iterations[0].steps[0];
+    expect(progressFromEvent(item, { type: 'step-done', iteration: 1, step })).toEqual({ stepsDone: 1, currentStep: undefined });
+    expect(progressFromEvent(item, { type: 'retry', info: { attempt: 1, maxRetries: 3, delayMs: 10, reason: '429' } }))
+      .toEqual({ retries: 1, lastRetry: '429' });
+  });
+});
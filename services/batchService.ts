@@ -0,0 +1,127 @@
+import { BatchItem, BatchItemStatus, RunEvent, RunReport, StepStatus } from "../types";
+import { CONTENT_LOSS_LABELS } from "./contentGuard";
+import { formatCost } from "./usageService";
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: '排队中',
+  running: '处理中',
+  done: '已完成',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+const createBatchId = () => `b-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+export const createBatchItem = (fileName: string, text: string, warnings: string[] = []): BatchItem => ({
+  id: createBatchId(),
+  fileName,
+  text,
+  warnings,
+  status: 'queued',
+  attempts: 1,
+  stepsDone: 0,
+  stepsTotal: 0,
+  retries: 0
+});
+
+/**
+ * Puts a finished, failed or cancelled document back in the queue with its progress cleared.
+ */
+export const requeueItem = (item: BatchItem): BatchItem => ({
+  ...createBatchItem(item.fileName, item.text, item.warnings),
+  id: item.id,
+  attempts: item.attempts + 1
+});
+
+/**
+ * Status of a document after its run: a planning error fails it, cancellation cancels it. Failed
+ * steps do not fail the document; they are listed in its summary.
+ */
+export const statusAfterRun = (report: RunReport): BatchItemStatus =>
+  report.stoppedReason === 'error' ? 'failed' : report.stoppedReason === 'cancelled' ? 'cancelled' : 'done';
+
+const STEP_MARKS: Partial<Record<StepStatus, string>> = {
+  [StepStatus.COMPLETED]: '✓',
+  [StepStatus.FAILED]: '✗',
+  [StepStatus.PENDING]: '…'
+};
+
+/**
+ * The diff summaries of one document's run as markdown, step by step and round by round.
+ */
+export const formatRunSummary = (item: BatchItem): string => {
+  const report = item.report;
+  const lines = [`# ${item.fileName}`, ''];
+  if (!report) {
+    lines.push(item.error ? `处理失败：${item.error}` : '尚未处理。');
+    return lines.join('\n');
+  }
+  lines.push(
+    `- 字符数：${report.inputChars} → ${report.outputChars}`,
+    `- 模型：${report.provider} / ${report.model}`,
+    `- 估算费用：${formatCost(report.estimatedCostUsd)}${report.unpriced ? '+（部分模型未定价，未计入）' : ''}`
+  );
+  if (report.stoppedReason) {
+    lines.push(`- 提前结束：${report.stoppedReason}${report.error ? `（${report.error}）` : ''}`);
+  }
+  for (const iteration of report.iterations) {
+    lines.push('', `## 第 ${iteration.iteration} 轮：${iteration.analysis.category}`, '');
+    for (const step of iteration.steps) {
+      const mark = STEP_MARKS[step.status];
+      lines.push(`### ${mark ? `${mark} ` : ''}${step.name}`, '');
+      if (step.diffSummary) lines.push(step.diffSummary, '');
+      if (step.error) lines.push(`> 失败：${step.error}`, '');
+      if (step.status === StepStatus.PENDING) lines.push('> 未执行：前置步骤未完成或已达预算', '');
+      step.losses?.forEach(loss => lines.push(`> 可能丢失的${CONTENT_LOSS_LABELS[loss.kind]}：${loss.items.join('；')}`, ''));
+    }
+  }
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'document';
+
+/**
+ * Zips the refined text, the diff summary and the run report of every processed document, with an
+ * overview of the batch. Documents with the same name are numbered so that none is overwritten.
+ */
+export const buildBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  const used = new Map<string, number>();
+  const overview = ['# 批量处理结果', '', '| 文档 | 状态 | 完成步骤 | 字符数 | 估算费用 |', '| --- | --- | --- | --- | --- |'];
+
+  for (const item of items) {
+    const base = baseName(item.fileName);
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    const name = count ? `${base} (${count + 1})` : base;
+
+    if (item.output !== undefined) zip.file(`refined/${name}.md`, item.output);
+    zip.file(`summaries/${name}.md`, formatRunSummary(item));
+    if (item.report) zip.file(`reports/${name}.json`, JSON.stringify({ ...item.report, source: item.fileName }, null, 2));
+
+    const steps = item.report?.iterations.flatMap(it => it.steps) || [];
+    const done = steps.filter(s => s.status === StepStatus.COMPLETED).length;
+    overview.push(`| ${name} | ${BATCH_STATUS_LABELS[item.status]} | ${done}/${steps.length} | ${item.report ? `${item.report.inputChars} → ${item.report.outputChars}` : '-'} | ${item.report ? `${formatCost(item.report.estimatedCostUsd)}${item.report.unpriced ? '+' : ''}` : '-'} |`);
+  }
+  zip.file('README.md', overview.join('\n') + '\n');
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * The progress a run event means for its document.
+ */
+export const progressFromEvent = (item: BatchItem, event: RunEvent): Partial<BatchItem> => {
+  switch (event.type) {
+    case 'plan':
+      return { stepsTotal: item.stepsTotal + event.plan.steps.length };
+    case 'step-start':
+      return { currentStep: event.step.name };
+    case 'step-done':
+      return { stepsDone: item.stepsDone + 1, currentStep: undefined };
+    case 'retry':
+      return { retries: item.retries + 1, lastRetry: event.info.reason };
+  }
+};
@@ -0,0 +1,25 @@
+import { AppConfig, CandidateVariant, ReviewStep } from "../types";
+
+export const DEFAULT_CANDIDATES: CandidateVariant[] = [
+  { temperature: 0.3 },
+  { temperature: 0.7 },
+  { temperature: 1.0 }
+];
+
+export const MIN_CANDIDATES = 2;
+export const MAX_CANDIDATES = 4;
+
+/**
+ * The step as one candidate runs it: the variant's model and temperature over the step's own override.
+ */
+export const candidateStep = (step: ReviewStep, variant: CandidateVariant): ReviewStep => ({
+  ...step,
+  overrides: {
+    ...step.overrides,
+    ...(variant.model && { model: variant.model }),
+    ...(variant.temperature !== undefined && { temperature: variant.temperature })
+  }
+});
+
+export const describeVariant = (variant: CandidateVariant, config: AppConfig): string =>
+  `${variant.model || config.model} · 温度 ${variant.temperature ?? config.temperature ?? '默认'}`;
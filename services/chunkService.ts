@@ -0,0 +1,124 @@
+import { ChunkingPolicy, DocumentSection } from "../types";
+
+export const DEFAULT_CHUNKING: ChunkingPolicy = {
+  enabled: true,
+  maxSectionTokens: 6000,
+  maxPlanningTokens: 60000
+};
+
+const HEADING = /^#{1,6}\s+/;
+const FENCE = /^\s*(```|~~~)/;
+const CJK = /[぀-ヿ㐀-鿿가-힯豈-﫿]/g;
+
+/**
+ * Rough token estimate: one token per CJK character, four characters per token otherwise.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = text.match(CJK)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+/**
+ * Splits text into lines, keeping each line's newline so the pieces join back to the input.
+ */
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+/**
+ * Cuts the document before every markdown heading that is not inside a code fence.
+ */
+const splitAtHeadings = (text: string): string[] => {
+  const blocks: string[] = [];
+  let current = '';
+  let inFence = false;
+  for (const line of splitLines(text)) {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (!inFence && HEADING.test(line) && current) {
+      blocks.push(current);
+      current = '';
+    }
+    current += line;
+  }
+  if (current) blocks.push(current);
+  return blocks;
+};
+
+/**
+ * Greedily packs consecutive pieces into groups that stay within the budget.
+ */
+const pack = (pieces: string[], budget: number): string[] => {
+  const groups: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && estimateTokens(current + piece) > budget) {
+      // Never leave a heading stranded at the end of a group, away from its content
+      const tail = current.match(/(^|\n)(#{1,6}\s+[^\n]*\n?[ \t\n]*)$/);
+      const carry = tail && tail.index! + tail[1].length > 0 ? tail[2] : '';
+      groups.push(current.slice(0, current.length - carry.length));
+      current = carry;
+    }
+    current += piece;
+  }
+  if (current) groups.push(current);
+  return groups;
+};
+
+/**
+ * Breaks a block that is over budget at paragraph, then line, then character boundaries.
+ */
+const splitOversized = (block: string, budget: number): string[] => {
+  if (estimateTokens(block) <= budget) return [block];
+
+  const paragraphs = block.split(/(?<=\n[ \t]*\n)/);
+  if (paragraphs.length > 1) {
+    return pack(paragraphs.flatMap(p => splitOversized(p, budget)), budget);
+  }
+  const lines = splitLines(block);
+  if (lines.length > 1) {
+    return pack(lines.flatMap(l => splitOversized(l, budget)), budget);
+  }
+  const size = Math.max(1, Math.floor(block.length * budget / estimateTokens(block)));
+  const slices: string[] = [];
+  for (let i = 0; i < block.length; i += size) {
+    slices.push(block.slice(i, i + size));
+  }
+  return slices;
+};
+
+/**
+ * Splits a document into sections of at most maxTokens, preferring markdown heading
+ * boundaries. Joining the section texts always yields the input.
+ */
+export const splitIntoSections = (text: string, maxTokens: number): DocumentSection[] => {
+  const pieces = splitAtHeadings(text).flatMap(block => splitOversized(block, maxTokens));
+  return pack(pieces, maxTokens).map((sectionText, index) => ({
+    index,
+    heading: splitLines(sectionText).find(line => HEADING.test(line))?.replace(HEADING, '').trim(),
+    text: sectionText
+  }));
+};
+
+/**
+ * Lists the document's headings as an indented outline, skipping code fences.
+ */
+export const buildOutline = (text: string, maxLines: number = 80): string => {
+  const outline: string[] = [];
+  let inFence = false;
+  for (const line of splitLines(text)) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+)/);
+    if (match) {
+      outline.push(`${'  '.repeat(match[1].length - 1)}- ${match[2].trim()}`);
+    }
+  }
+  return outline.slice(0, maxLines).join('\n');
+};
+
+/**
+ * Puts a revised section back in place, keeping the whitespace that separated
+ * the original section from its neighbours.
+ */
+export const restoreSectionSpacing = (original: string, revised: string): string => {
+  const leading = original.match(/^\s*/)?.[0] || '';
+  const trailing = original.trim() ? original.match(/\s*$/)?.[0] || '' : '';
+  return leading + revised.trim() + trailing;
+};
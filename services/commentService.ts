@@ -0,0 +1,53 @@
+import { CommentSeverity, ReviewComment } from "../types";
+
+export const COMMENT_SEVERITIES: { id: CommentSeverity; name: string; className: string }[] = [
+  { id: 'critical', name: '严重', className: 'bg-red-100 text-red-700 border-red-200' },
+  { id: 'major', name: '重要', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  { id: 'minor', name: '次要', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  { id: 'suggestion', name: '建议', className: 'bg-slate-100 text-slate-600 border-slate-200' }
+];
+
+export const getSeverity = (id: CommentSeverity) =>
+  COMMENT_SEVERITIES.find(s => s.id === id) || COMMENT_SEVERITIES[COMMENT_SEVERITIES.length - 1];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds a quote in the text, preferring the occurrence nearest to `hint`. Models often reflow
+ * whitespace when quoting, so an exact miss is retried with any run of whitespace matching any other.
+ * Returns the span of the match in the text, or null when the quote does not occur.
+ */
+export const anchorQuote = (text: string, quote: string, hint = 0): { start: number; end: number } | null => {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+
+  const matches: { start: number; end: number }[] = [];
+  for (let i = text.indexOf(trimmed); i !== -1; i = text.indexOf(trimmed, i + 1)) {
+    matches.push({ start: i, end: i + trimmed.length });
+  }
+  if (matches.length === 0) {
+    const pattern = new RegExp(trimmed.split(/\s+/).map(escapeRegExp).join('\\s*'), 'g');
+    for (const m of text.matchAll(pattern)) {
+      if (m[0]) matches.push({ start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  if (matches.length === 0) return null;
+  return matches.reduce((best, m) => Math.abs(m.start - hint) < Math.abs(best.start - hint) ? m : best);
+};
+
+/**
+ * Where a comment's quote currently is in the text, using its recorded offset to pick among repeats.
+ */
+export const locateComment = (text: string, comment: ReviewComment) =>
+  anchorQuote(text, comment.quote, Math.max(0, comment.offset));
+
+/**
+ * The text with the comment's suggestion in place of its quote, or null when the comment has no
+ * suggestion or its quote is no longer in the text.
+ */
+export const applyComment = (text: string, comment: ReviewComment): string | null => {
+  if (comment.suggestion === undefined) return null;
+  const span = locateComment(text, comment);
+  if (!span) return null;
+  return text.slice(0, span.start) + comment.suggestion + text.slice(span.end);
+};
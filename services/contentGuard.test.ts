@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ContentGuardPolicy } from '../types';
+import { DEFAULT_CONTENT_GUARD, detectContentLoss, summarizeLosses } from './contentGuard';
+
+const policy: ContentGuardPolicy = DEFAULT_CONTENT_GUARD;
+
+const kinds = (before: string, after: string, options?: { translated?: boolean }) =>
+  detectContentLoss(before, after, policy, options).map(l => l.kind);
+
+describe('detectContentLoss', () => {
+  it('finds nothing when the content is kept', () => {
+    const text = '# Title\n\nRevenue grew 12.5% in 2023 at Acme Corp in New York.\n\n$$E = mc^2$$';
+    expect(detectContentLoss(text, text.replace('grew', 'rose'), policy)).toEqual([]);
+  });
+
+  it('reports removed headings, numbers and names', () => {
+    const before = '# Intro\n\n## Results\n\nSales reached 4200 units in New York.';
+    const losses = detectContentLoss(before, '# Intro\n\nSales reached many units in the city, as described here.', policy);
+    expect(losses).toEqual(expect.arrayContaining([
+      { kind: 'heading', items: ['Results'] },
+      { kind: 'number', items: ['4200'] },
+      { kind: 'entity', items: ['New York'] }
+    ]));
+  });
+
+  it('reports fewer tables, code blocks and formulas', () => {
+    const before = '| a | b |\n| --- | --- |\n| 1 | 2 |\n\n```js\nrun();\n```\n\nWhere $x^2$ holds.';
+    expect(kinds(before, 'A table, some code and a formula used to be here.')).toEqual(
+      expect.arrayContaining(['table', 'code', 'math'])
+    );
+  });
+
+  it('ignores headings and numbers inside code blocks', () => {
+    const before = 'Text.\n\n```\n# not a heading 1234\n```';
+    const after = 'Text.\n\n```\n# changed 5678\n```';
+    expect(kinds(before, after)).toEqual([]);
+  });
+
+  it('reports shrinkage beyond the policy', () => {
+    expect(kinds('word '.repeat(100), 'word '.repeat(50))).toEqual(['shrink']);
+    expect(kinds('word '.repeat(100), 'word '.repeat(90))).toEqual([]);
+  });
+
+  it('does not hold translated names, headings or length against a translation', () => {
+    const before = '# Overview\n\nThe office in New York opened in 2021 under the Paris Agreement.';
+    const after = '# 概述\n\n纽约办公室于 2021 年根据《巴黎协定》开设。';
+    expect(kinds(before, after, { translated: true })).toEqual([]);
+    expect(kinds(before, after)).toEqual(expect.arrayContaining(['heading', 'entity']));
+  });
+
+  it('still reports lost numbers and formulas in a translation', () => {
+    const before = 'Growth was 12.5% where $g = r - d$.';
+    expect(kinds(before, '增长显著。', { translated: true })).toEqual(['math', 'number']);
+  });
+});
+
+describe('summarizeLosses', () => {
+  it('counts items per kind and shows the shrinkage', () => {
+    expect(summarizeLosses([
+      { kind: 'heading', items: ['A', 'B'] },
+      { kind: 'shrink', items: ['100 → 50 字符（-50%）'] }
+    ])).toBe('标题 2、篇幅缩减 100 → 50 字符（-50%）');
+  });
+});
@@ -0,0 +1,150 @@
+import { ContentGuardPolicy, ContentLoss, ContentLossKind } from "../types";
+
+export const DEFAULT_CONTENT_GUARD: ContentGuardPolicy = {
+  mode: 'warn',
+  maxShrinkPercent: 20
+};
+
+export const CONTENT_LOSS_LABELS: Record<ContentLossKind, string> = {
+  heading: '标题',
+  table: '表格',
+  code: '代码块',
+  math: '公式',
+  number: '数字',
+  entity: '专有名词',
+  shrink: '篇幅缩减'
+};
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+const MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+const NUMBER = /\d+(?:[.,]\d+)*%?/g;
+// Acronyms and codes (GB 50010, ISO 9001, FEM), capitalised multi-word names on one line and titles in 《》
+const ENTITY = /\b[A-Z]{2,}[A-Za-z]*(?:[ \/-]?\d[\d.\-]*)?\b|\b[A-Z][a-z]+(?:[ \t]+(?:of|and|de|van|von|[A-Z][a-z]+))*[ \t]+[A-Z][a-z]+\b|《[^》\n]+》/g;
+
+const normalize = (text: string) => text.replace(/\s+/g, '').replace(/[*_`]/g, '');
+
+interface Structure {
+  headings: string[];
+  tables: string[]; // Header rows
+  code: string[];
+  prose: string; // The text outside code blocks
+}
+
+/**
+ * Splits the document into the parts the guard compares. Code blocks are taken out first so that
+ * their contents are not mistaken for headings, formulas or numbers.
+ */
+const parseStructure = (text: string): Structure => {
+  const lines = text.split('\n');
+  const structure: Structure = { headings: [], tables: [], code: [], prose: '' };
+  const prose: string[] = [];
+  let fence: string[] | null = null;
+
+  lines.forEach((line, i) => {
+    if (FENCE.test(line)) {
+      if (fence) {
+        structure.code.push(fence.join('\n'));
+        fence = null;
+      } else {
+        fence = [line.trim()];
+      }
+      return;
+    }
+    if (fence) {
+      fence.push(line);
+      return;
+    }
+    prose.push(line);
+    const heading = line.match(HEADING);
+    if (heading) structure.headings.push(heading[1]);
+    if (line.trim().startsWith('|') && TABLE_SEPARATOR.test(lines[i + 1]?.trim() || '')) {
+      structure.tables.push(line.trim());
+    }
+  });
+  // An unclosed fence runs to the end of the document
+  if (fence) structure.code.push((fence as string[]).join('\n'));
+  structure.prose = prose.join('\n');
+  return structure;
+};
+
+const extractMath = (prose: string): string[] =>
+  [...prose.matchAll(MATH)].map(m => m[0]);
+
+/**
+ * Items of `before` with no counterpart in `after`, compared after normalisation and counting repeats.
+ */
+const missingItems = (before: string[], after: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  after.forEach(item => remaining.set(normalize(item), (remaining.get(normalize(item)) || 0) + 1));
+  return before.filter(item => {
+    const key = normalize(item);
+    const count = remaining.get(key) || 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+};
+
+/**
+ * Tables, code blocks and formulas are often edited in place, so they only count as lost when
+ * there are fewer of them afterwards; the ones with no unchanged counterpart are then listed.
+ */
+const droppedBlocks = (before: string[], after: string[], label: (item: string) => string): string[] => {
+  if (after.length >= before.length) return [];
+  const missing = missingItems(before, after).map(item => label(item));
+  return missing.length ? missing : [`数量 ${before.length} → ${after.length}`];
+};
+
+const uniqueMatches = (text: string, pattern: RegExp): string[] =>
+  Array.from(new Set(text.match(pattern) || []));
+
+const clip = (text: string, length = 60) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Structural checks of a step result against the text it started from: removed headings, fewer
+ * tables, code blocks or formulas, numbers and named entities that no longer occur, and shrinkage
+ * beyond the policy. Entities are found heuristically. A translated result keeps its structure but
+ * not its wording, so headings, names and length are not compared then.
+ */
+export const detectContentLoss = (
+  before: string,
+  after: string,
+  policy: ContentGuardPolicy,
+  options: { translated?: boolean } = {}
+): ContentLoss[] => {
+  const from = parseStructure(before);
+  const to = parseStructure(after);
+  const losses: ContentLoss[] = [];
+  const add = (kind: ContentLossKind, items: string[]) => {
+    if (items.length) losses.push({ kind, items });
+  };
+
+  if (!options.translated) {
+    add('heading', missingItems(from.headings, to.headings));
+  }
+  add('table', droppedBlocks(from.tables, to.tables, clip));
+  add('code', droppedBlocks(from.code, to.code, block => clip(block.split('\n').slice(0, 2).join(' '))));
+  add('math', droppedBlocks(extractMath(from.prose), extractMath(to.prose), clip));
+
+  const afterNumbers = new Set(to.prose.match(NUMBER) || []);
+  // Single digits are mostly list markers and counting words
+  add('number', uniqueMatches(from.prose, NUMBER).filter(n => n.length > 1 && !afterNumbers.has(n)));
+
+  if (!options.translated) {
+    // Names are translated along with the text ("New York" becomes 纽约)
+    add('entity', uniqueMatches(from.prose, ENTITY).filter(e => !after.includes(e)));
+    const shrink = before.length > 0 ? Math.round((1 - after.length / before.length) * 100) : 0;
+    if (shrink > policy.maxShrinkPercent) {
+      add('shrink', [`${before.length} → ${after.length} 字符（-${shrink}%）`]);
+    }
+  }
+  return losses;
+};
+
+/**
+ * A one-line count of the losses, e.g. "标题 2、公式 1".
+ */
+export const summarizeLosses = (losses: ContentLoss[]): string =>
+  losses.map(l => l.kind === 'shrink' ? `${CONTENT_LOSS_LABELS.shrink} ${l.items[0]}` : `${CONTENT_LOSS_LABELS[l.kind]} ${l.items.length}`).join('、');
@@ -0,0 +1,46 @@
+import { CriticPolicy, CritiqueVerdict } from "../types";
+import { diffTexts } from "./diffService";
+import { buildOutline, estimateTokens } from "./chunkService";
+
+export const DEFAULT_CRITIC: CriticPolicy = {
+  enabled: false,
+  maxRetries: 1
+};
+
+// Characters kept at each end of an unchanged run in the change listing
+const CONTEXT_CHARS = 120;
+
+/**
+ * What the critic sees of a revision: the size and outline of both versions, then the
+ * sentence-level changes with long unchanged runs shortened. Cut to maxTokens for huge rewrites.
+ */
+export const describeRevision = (before: string, after: string, maxTokens: number): string => {
+  const changes = diffTexts(before, after, 'sentence').map(seg => {
+    if (seg.type === 'insert') return `[+${seg.text}+]`;
+    if (seg.type === 'delete') return `[-${seg.text}-]`;
+    if (seg.text.length <= CONTEXT_CHARS * 2) return seg.text;
+    return `${seg.text.slice(0, CONTEXT_CHARS)}…（未改动 ${seg.text.length} 字符）…${seg.text.slice(-CONTEXT_CHARS)}`;
+  }).join('');
+
+  // Cut proportionally to the token estimate, which is not linear in characters for mixed scripts
+  const tokens = estimateTokens(changes);
+  const listing = tokens > maxTokens
+    ? `${changes.slice(0, Math.floor(changes.length * maxTokens / tokens))}\n…（差异过长，其余部分已省略）`
+    : changes;
+
+  const ratio = before.length ? Math.round((after.length / before.length) * 100) : 100;
+  return [
+    '--- BEGIN REVISION ---',
+    `篇幅：修订前 ${before.length} 字符 → 修订后 ${after.length} 字符（${ratio}%）`,
+    `修订前大纲：\n${buildOutline(before) || '（无标题结构）'}`,
+    `修订后大纲：\n${buildOutline(after) || '（无标题结构）'}`,
+    `差异（[-删除-]、[+新增+]，未改动的长段落已缩略）：\n${listing}`,
+    '--- END REVISION ---'
+  ].join('\n\n');
+};
+
+/**
+ * The critique as fed back to the next attempt at the step.
+ */
+export const formatCritique = (verdict: CritiqueVerdict): string =>
+  [...verdict.regressions.map(r => `- [退化] ${r}`), ...verdict.reasons.map(r => `- ${r}`)].join('\n');
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { DiffSegment } from '../types';
+import { diffTexts, mergeHunks, splitIntoHunks, summarizeDiff, tokenize } from './diffService';
+
+const side = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter(s => s.type !== skip).map(s => s.text).join('');
+
+// Deterministic pseudo-random words
+const words = (count: number, seed: number) => {
+  let state = seed;
+  return Array.from({ length: count }, (_, i) => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return `w${state % 5000}${i % 15 === 14 ? '.\n' : ''}`;
+  }).join(' ');
+};
+
+describe('tokenize', () => {
+  it('joins back to the input at both granularities', () => {
+    const text = 'Pi is 3.14, e.g. roughly.\n\n中文句子。下一句！ End?';
+    expect(tokenize(text, 'word').join('')).toBe(text);
+    expect(tokenize(text, 'sentence').join('')).toBe(text);
+  });
+
+  it('makes each CJK character its own word token', () => {
+    expect(tokenize('文档ab', 'word')).toEqual(['文', '档', 'ab']);
+  });
+
+  it('keeps decimals inside a sentence', () => {
+    expect(tokenize('It is 3.14 today. Next one.', 'sentence')).toEqual(['It is 3.14 today. ', 'Next one.']);
+  });
+});
+
+describe('diffTexts', () => {
+  it('marks a replaced word', () => {
+    expect(diffTexts('the quick fox', 'the slow fox', 'word')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'slow' },
+      { type: 'equal', text: ' fox' }
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffTexts('', 'new text', 'word')).toEqual([{ type: 'insert', text: 'new text' }]);
+    expect(diffTexts('old text', '', 'word')).toEqual([{ type: 'delete', text: 'old text' }]);
+    expect(diffTexts('', '', 'word')).toEqual([]);
+  });
+
+  it('finds a minimal diff', () => {
+    // Longest common subsequence of the tokens, checked by dynamic programming
+    const lcs = (a: string[], b: string[]) => {
+      const dp = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+      for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+          dp[i][j] = a[i - 1] === b[j - 1] ? dp[i - 1][j - 1] + 1 : Math.max(dp[i - 1][j], dp[i][j - 1]);
+        }
+      }
+      return dp[a.length][b.length];
+    };
+    let state = 7;
+    const pick = (n: number) => (state = (state * 1103515245 + 12345) % 2147483648) % n;
+    for (let run = 0; run < 300; run++) {
+      const a = Array.from({ length: pick(20) }, () => 'abcd'[pick(4)]).join(' ');
+      const b = Array.from({ length: pick(20) }, () => 'abcd'[pick(4)]).join(' ');
+      const segments = diffTexts(a, b, 'word');
+      expect(side(segments, 'insert')).toBe(a);
+      expect(side(segments, 'delete')).toBe(b);
+      const kept = segments.filter(s => s.type === 'equal').flatMap(s => tokenize(s.text, 'word')).length;
+      expect(kept).toBe(lcs(tokenize(a, 'word'), tokenize(b, 'word')));
+    }
+  });
+
+  it('diffs a full rewrite of a long document in coarser units', () => {
+    const before = words(10000, 1);
+    const after = words(10000, 2);
+    const started = Date.now();
+    const segments = diffTexts(before, after, 'word');
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(side(segments, 'insert')).toBe(before);
+    expect(side(segments, 'delete')).toBe(after);
+  });
+
+  it('keeps word granularity for a small edit in a long document', () => {
+    const before = words(10000, 3);
+    const after = before.replace(/^w\d+/, 'changed');
+    const segments = diffTexts(before, after, 'word');
+    expect(segments.slice(0, 2)).toEqual([
+      { type: 'delete', text: before.split(' ')[0] },
+      { type: 'insert', text: 'changed' }
+    ]);
+    expect(segments).toHaveLength(3);
+  });
+});
+
+describe('hunks', () => {
+  it('rebuilds either side from accepted and rejected hunks', () => {
+    const before = 'One. Two. Three. Four.';
+    const after = 'One. 2. Three. Four! Five.';
+    const parts = splitIntoHunks(diffTexts(before, after, 'sentence'));
+    const hunks = parts.filter(p => typeof p !== 'string');
+    expect(hunks).toHaveLength(2);
+    expect(mergeHunks(parts, new Set())).toBe(before);
+    expect(mergeHunks(parts, new Set([0, 1]))).toBe(after);
+    expect(mergeHunks(parts, new Set([0]))).toBe('One. 2. Three. Four.');
+  });
+
+  it('counts changed characters', () => {
+    expect(summarizeDiff(diffTexts('abc def', 'abc xy', 'word'))).toEqual({ added: 2, removed: 3 });
+  });
+});
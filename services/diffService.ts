@@ -0,0 +1,221 @@
+import { DiffGranularity, DiffHunk, DiffSegment, HunkedDiff } from "../types";
+
+// CJK ideographs and kana carry meaning per character, so each one is its own token.
+const WORD_TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}_]+|\s+|[\s\S]/gu;
+
+// A period followed by a non-space (3.14, e.g.) stays inside the sentence; CJK terminators always end it.
+const SENTENCE_TOKEN = /(?:[^\n.!?。！？]|[.!?](?=\S))+(?:[.!?]+(?=\s|$)|[。！？]+)?["'”’」』）)]*[ \t]*|\n+|[\s\S]/gu;
+
+/**
+ * Splits text into diffable tokens. Joining the tokens always yields the input.
+ */
+export const tokenize = (text: string, granularity: DiffGranularity): string[] => {
+  if (!text) return [];
+  return text.match(granularity === 'word' ? WORD_TOKEN : SENTENCE_TOKEN) || [];
+};
+
+/**
+ * Myers O(ND) diff over two token arrays in linear space: the middle snake of each range splits it
+ * in two halves that are diffed recursively. Appends one op per token to `ops`.
+ */
+const myersDiff = (
+  a: string[], aLo: number, aHi: number,
+  b: string[], bLo: number, bHi: number,
+  ops: DiffSegment[]
+): void => {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push({ type: 'equal', text: a[aLo++] });
+    bLo++;
+  }
+  const suffix: DiffSegment[] = [];
+  while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+    suffix.push({ type: 'equal', text: a[--aHi] });
+    bHi--;
+  }
+
+  if (aLo === aHi || bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) ops.push({ type: 'delete', text: a[i] });
+    for (let i = bLo; i < bHi; i++) ops.push({ type: 'insert', text: b[i] });
+  } else {
+    const [x, y] = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    myersDiff(a, aLo, aLo + x, b, bLo, bLo + y, ops);
+    myersDiff(a, aLo + x, aHi, b, bLo + y, bHi, ops);
+  }
+
+  for (let i = suffix.length - 1; i >= 0; i--) ops.push(suffix[i]);
+};
+
+/**
+ * Searches forward from the start and backward from the end of the ranges at once until the paths
+ * overlap, and returns the split point (offsets into both ranges) on an optimal path.
+ * Diagonals that run off the grid are dropped from the search instead of being extended.
+ */
+const middleSnake = (
+  a: string[], aLo: number, aHi: number,
+  b: string[], bLo: number, bHi: number
+): [number, number] => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD + 2;
+  // Furthest x on each diagonal, forward from the start and backward from the end
+  const forward = new Int32Array(length).fill(-1);
+  const backward = new Int32Array(length).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet on a forward move, with an even one on a backward move
+  const checkForward = delta % 2 !== 0;
+  let forwardStart = 0, forwardEnd = 0, backwardStart = 0, backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const i = offset + k;
+      let x = (k === -d || (k !== d && forward[i - 1] < forward[i + 1])) ? forward[i + 1] : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[i] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < length && backward[j] !== -1 && x >= n - backward[j]) return [x, y];
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const i = offset + k;
+      let x = (k === -d || (k !== d && backward[i - 1] < backward[i + 1])) ? backward[i + 1] : backward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[i] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < length && forward[j] !== -1 && forward[j] >= n - x) {
+          return [forward[j], forward[j] - (j - offset)];
+        }
+      }
+    }
+  }
+  // No common token at all: everything is deleted, then everything inserted
+  return [n, 0];
+};
+
+/**
+ * Merges adjacent segments of the same type.
+ */
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] => {
+  const merged: DiffSegment[] = [];
+  for (const seg of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === seg.type) {
+      last.text += seg.text;
+    } else {
+      merged.push({ ...seg });
+    }
+  }
+  return merged;
+};
+
+// Beyond this many changed tokens a diff falls back to coarser tokens, as O(ND) grows with the square
+const MAX_DIFF_TOKENS = 6000;
+
+const LINE_TOKEN = /[^\n]*\n|[^\n]+/g;
+
+/**
+ * Diffs at the given granularity, then at sentence and line level for changed regions too large for
+ * it. A changed region too large even in lines is shown as one replacement.
+ */
+const diffAtLevel = (before: string, after: string, level: DiffGranularity | 'line'): DiffSegment[] => {
+  const a = level === 'line' ? before.match(LINE_TOKEN) || [] : tokenize(before, level);
+  const b = level === 'line' ? after.match(LINE_TOKEN) || [] : tokenize(after, level);
+
+  // Trim the common prefix and suffix so the O(ND) core only sees the changed region.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) segments.push({ type: 'equal', text: a.slice(0, start).join('') });
+  // A pure insertion or deletion is linear whatever its size
+  if (endA === start || endB === start || (endA - start) + (endB - start) <= MAX_DIFF_TOKENS) {
+    myersDiff(a, start, endA, b, start, endB, segments);
+  } else {
+    const removed = a.slice(start, endA).join('');
+    const added = b.slice(start, endB).join('');
+    if (level === 'line') {
+      segments.push({ type: 'delete', text: removed }, { type: 'insert', text: added });
+    } else {
+      segments.push(...diffAtLevel(removed, added, level === 'word' ? 'sentence' : 'line'));
+    }
+  }
+  if (endA < a.length) segments.push({ type: 'equal', text: a.slice(endA).join('') });
+  return segments;
+};
+
+/**
+ * Computes the difference between two texts at word or sentence level. Large rewrites are diffed
+ * in coarser units so that the cost stays bounded.
+ */
+export const diffTexts = (before: string, after: string, granularity: DiffGranularity): DiffSegment[] =>
+  mergeSegments(diffAtLevel(before, after, granularity));
+
+/**
+ * Counts the inserted and deleted characters in a diff.
+ */
+export const summarizeDiff = (segments: DiffSegment[]): { added: number; removed: number } => {
+  let added = 0;
+  let removed = 0;
+  for (const seg of segments) {
+    if (seg.type === 'insert') added += seg.text.length;
+    if (seg.type === 'delete') removed += seg.text.length;
+  }
+  return { added, removed };
+};
+
+/**
+ * Groups a diff into hunks: each maximal run of changes between unchanged text becomes one hunk.
+ */
+export const splitIntoHunks = (segments: DiffSegment[]): HunkedDiff => {
+  const parts: HunkedDiff = [];
+  let current: DiffHunk | null = null;
+  let count = 0;
+  for (const seg of segments) {
+    if (seg.type === 'equal') {
+      current = null;
+      parts.push(seg.text);
+      continue;
+    }
+    if (!current) {
+      current = { index: count++, before: '', after: '' };
+      parts.push(current);
+    }
+    if (seg.type === 'delete') current.before += seg.text;
+    else current.after += seg.text;
+  }
+  return parts;
+};
+
+/**
+ * Rebuilds the text, taking the revised side of accepted hunks and the original side of the rest.
+ */
+export const mergeHunks = (parts: HunkedDiff, accepted: Set<number>): string =>
+  parts.map(p => typeof p === 'string' ? p : (accepted.has(p.index) ? p.after : p.before)).join('');
@@ -0,0 +1,436 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkRehype from 'remark-rehype';
+import rehypeKatex from 'rehype-katex';
+import rehypeStringify from 'rehype-stringify';
+import type { Root, RootContent, PhrasingContent, ListItem, Table as MdTable, FootnoteDefinition } from 'mdast';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  LevelFormat,
+  Math as OfficeMath,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { latexToMath } from './latexMath';
+
+export type ExportFormat = 'markdown' | 'docx' | 'html' | 'pdf';
+
+// Same version as the stylesheet linked from index.html
+const KATEX_CSS_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css';
+
+const parseMarkdown = (text: string): Root =>
+  unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(text);
+
+/**
+ * A file name (without extension) taken from the document title: the first heading, or the
+ * first non-empty line when there is none.
+ */
+export const deriveFileName = (text: string): string => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const title = lines.find(l => /^#{1,6}\s/.test(l)) ?? lines[0] ?? '';
+  const name = title
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/[*_`~[\]()$]/g, '')
+    .replace(/[\\/:*?"<>|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60)
+    .trim();
+  return name || 'refined_document';
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// ---------------------------------------------------------------------------
+// HTML and PDF
+// ---------------------------------------------------------------------------
+
+const DOCUMENT_CSS = `
+body { max-width: 48rem; margin: 2.5rem auto; padding: 0 1.5rem; font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; font-size: 16px; line-height: 1.75; color: #1e293b; }
+h1, h2, h3, h4, h5, h6 { font-weight: 600; line-height: 1.3; margin: 1.8em 0 0.6em; color: #0f172a; }
+h1 { font-size: 2em; margin-top: 0; } h2 { font-size: 1.5em; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.3em; } h3 { font-size: 1.25em; }
+p, ul, ol, blockquote, table, pre { margin: 0 0 1em; }
+a { color: #2563eb; }
+blockquote { border-left: 4px solid #cbd5e1; padding-left: 1em; color: #475569; }
+code { font-family: "Fira Code", Consolas, monospace; font-size: 0.9em; background: #f1f5f9; padding: 0.1em 0.3em; border-radius: 3px; }
+pre { background: #1e293b; color: #f1f5f9; padding: 1em; border-radius: 6px; overflow-x: auto; }
+pre code { background: none; padding: 0; color: inherit; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 0.4em 0.75em; text-align: left; vertical-align: top; }
+th { background: #f8fafc; font-weight: 600; }
+hr { border: none; border-top: 1px solid #e2e8f0; margin: 2em 0; }
+img { max-width: 100%; }
+.katex-display { overflow-x: auto; overflow-y: hidden; }
+.footnotes { font-size: 0.875em; color: #475569; }
+
+@page { size: A4; margin: 20mm 18mm; }
+@media print {
+  body { max-width: none; margin: 0; padding: 0; font-size: 11pt; }
+  h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+  table, pre, blockquote, figure, .katex-display { break-inside: avoid; }
+  thead { display: table-header-group; }
+  pre { background: #f8fafc; color: #1e293b; border: 1px solid #e2e8f0; white-space: pre-wrap; }
+  a { color: inherit; text-decoration: none; }
+}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+let katexCssPromise: Promise<string> | null = null;
+
+/**
+ * The KaTeX stylesheet with its woff2 fonts embedded as data URIs, so the exported HTML renders
+ * formulas offline. The other font formats are dropped; every current browser reads woff2.
+ */
+const loadInlinedKatexCss = (): Promise<string> => {
+  katexCssPromise ??= (async () => {
+    const base = KATEX_CSS_URL.slice(0, KATEX_CSS_URL.lastIndexOf('/') + 1);
+    const cssResponse = await fetch(KATEX_CSS_URL);
+    if (!cssResponse.ok) throw new Error(`katex.min.css: ${cssResponse.status}`);
+    const css = (await cssResponse.text())
+      .replace(/,\s*url\([^)]+\.(?:woff|ttf)\)\s*format\("(?:woff|truetype)"\)/g, '');
+    const fonts = Array.from(new Set(css.match(/fonts\/[^)"']+\.woff2/g) || []));
+    const embedded = await Promise.all(fonts.map(async font => {
+      const response = await fetch(base + font);
+      if (!response.ok) throw new Error(`${font}: ${response.status}`);
+      return [font, `data:font/woff2;base64,${toBase64(await response.arrayBuffer())}`] as const;
+    }));
+    return embedded.reduce((result, [font, dataUri]) => result.split(font).join(dataUri), css);
+  })();
+  katexCssPromise.catch(() => { katexCssPromise = null; });
+  return katexCssPromise;
+};
+
+/**
+ * Renders the document as a complete HTML page tagged with its language code. With `inlineAssets`
+ * the KaTeX stylesheet and fonts are embedded so the file works offline; otherwise the stylesheet
+ * is linked from the CDN.
+ */
+export const renderHtmlDocument = async (text: string, title: string, lang: string, inlineAssets: boolean): Promise<string> => {
+  const body = String(
+    await unified()
+      .use(remarkParse)
+      .use(remarkGfm)
+      .use(remarkMath)
+      .use(remarkRehype)
+      .use(rehypeKatex)
+      .use(rehypeStringify)
+      .process(text)
+  );
+
+  let katexStyle: string;
+  if (inlineAssets) {
+    try {
+      katexStyle = `<style>${await loadInlinedKatexCss()}</style>`;
+    } catch (error: any) {
+      throw new Error(`无法下载公式样式（KaTeX），请检查网络后重试。${error.message ? `(${error.message})` : ''}`);
+    }
+  } else {
+    katexStyle = `<link rel="stylesheet" href="${KATEX_CSS_URL}">`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+${katexStyle}
+<style>${DOCUMENT_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Opens the browser print dialog for the document laid out with the print stylesheet, from which
+ * the user saves a PDF. Printing happens in a hidden iframe so the app itself is not printed.
+ */
+export const printDocument = async (text: string, title: string, lang: string): Promise<void> => {
+  const html = await renderHtmlDocument(text, title, lang, false);
+  const iframe = document.createElement('iframe');
+  iframe.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;';
+  document.body.appendChild(iframe);
+
+  await new Promise<void>((resolve) => {
+    iframe.onload = () => resolve();
+    iframe.srcdoc = html;
+  });
+
+  const frameWindow = iframe.contentWindow!;
+  await iframe.contentDocument?.fonts.ready;
+
+  // Browsers suggest the PDF file name from the top-level title
+  const previousTitle = document.title;
+  document.title = title;
+  const cleanup = () => {
+    document.title = previousTitle;
+    iframe.remove();
+  };
+  frameWindow.addEventListener('afterprint', cleanup, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+  // Fallback for browsers that never fire afterprint
+  setTimeout(() => { if (iframe.isConnected) cleanup(); }, 60_000);
+};
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const CODE_FONT = 'Consolas';
+const BULLET_REFERENCE = 'bullet';
+const ORDERED_REFERENCE = 'ordered';
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+const TABLE_ALIGNMENT = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT
+};
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  link?: boolean;
+}
+
+const runOptions = ({ link, ...style }: RunStyle) => ({ ...style, style: link ? 'Hyperlink' : undefined });
+
+interface BlockContext {
+  indent: number; // Nesting depth of lists and quotes
+  quote: boolean;
+  list?: { reference: string; level: number; instance: number };
+}
+
+/**
+ * Builds a Word document from markdown: headings use Word's heading styles, GFM tables become
+ * tables, `$…$` / `$$…$$` become native equations, footnotes become Word footnotes.
+ */
+export const renderDocx = async (text: string, title: string): Promise<Blob> => {
+  const tree = parseMarkdown(text);
+
+  const footnoteIds = new Map<string, number>();
+  const footnoteNodes: FootnoteDefinition[] = [];
+  for (const node of tree.children) {
+    if (node.type === 'footnoteDefinition') {
+      footnoteIds.set(node.identifier, footnoteIds.size + 1);
+      footnoteNodes.push(node);
+    }
+  }
+
+  // Each ordered list restarts its numbering
+  let orderedLists = 0;
+
+  const inline = (nodes: PhrasingContent[], style: RunStyle = {}): ParagraphChild[] =>
+    nodes.flatMap((node): ParagraphChild[] => {
+      switch (node.type) {
+        case 'text':
+          return [new TextRun({ text: node.value.replace(/\n/g, ' '), ...runOptions(style) })];
+        case 'strong':
+          return inline(node.children, { ...style, bold: true });
+        case 'emphasis':
+          return inline(node.children, { ...style, italics: true });
+        case 'delete':
+          return inline(node.children, { ...style, strike: true });
+        case 'inlineCode':
+          return [new TextRun({
+            text: node.value,
+            font: CODE_FONT,
+            shading: { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' },
+            ...runOptions(style)
+          })];
+        case 'inlineMath':
+          return [new OfficeMath({ children: latexToMath(node.value) })];
+        case 'break':
+          return [new TextRun({ text: '', break: 1 })];
+        case 'link':
+          return [new ExternalHyperlink({ link: node.url, children: inline(node.children, { ...style, link: true }) })];
+        case 'image':
+          return [new TextRun({ text: `[图片${node.alt ? `：${node.alt}` : ''}]`, italics: true, color: '64748B' })];
+        case 'footnoteReference': {
+          const id = footnoteIds.get(node.identifier);
+          return id ? [new FootnoteReferenceRun(id)] : [];
+        }
+        case 'html':
+          return [new TextRun({ text: node.value, ...runOptions(style) })];
+        default:
+          return 'children' in node ? inline(node.children as PhrasingContent[], style) : [];
+      }
+    });
+
+  const paragraph = (children: ParagraphChild[], context: BlockContext, first: boolean) => new Paragraph({
+    children,
+    ...(context.list && first
+      ? { numbering: { reference: context.list.reference, level: context.list.level, instance: context.list.instance } }
+      : { indent: context.indent ? { left: 720 * context.indent } : undefined }),
+    ...(context.quote
+      ? { border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'CBD5E1', space: 8 } } }
+      : {})
+  });
+
+  const table = (node: MdTable): Table => new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: node.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: row.children.map((cell, cellIndex) => new TableCell({
+        shading: rowIndex === 0 ? { type: ShadingType.CLEAR, fill: 'F8FAFC', color: 'auto' } : undefined,
+        children: [new Paragraph({
+          alignment: TABLE_ALIGNMENT[node.align?.[cellIndex] ?? 'left'],
+          children: inline(cell.children, rowIndex === 0 ? { bold: true } : {})
+        })]
+      }))
+    }))
+  });
+
+  const listItem = (item: ListItem, context: BlockContext): (Paragraph | Table)[] => {
+    const checkbox = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : '';
+    return item.children.flatMap((child, index) => {
+      if (index === 0 && child.type === 'paragraph') {
+        const children = inline(child.children);
+        if (checkbox) children.unshift(new TextRun(checkbox));
+        return [paragraph(children, context, true)];
+      }
+      return blocks([child], { ...context, list: child.type === 'list' ? context.list : undefined });
+    });
+  };
+
+  const blocks = (nodes: RootContent[], context: BlockContext): (Paragraph | Table)[] =>
+    nodes.flatMap((node): (Paragraph | Table)[] => {
+      switch (node.type) {
+        case 'heading':
+          return [new Paragraph({ heading: HEADING_LEVELS[node.depth - 1], children: inline(node.children) })];
+        case 'paragraph':
+          return [paragraph(inline(node.children, context.quote ? { italics: true } : {}), context, false)];
+        case 'math':
+          return [new Paragraph({ alignment: AlignmentType.CENTER, children: [new OfficeMath({ children: latexToMath(node.value) })] })];
+        case 'code':
+          return [new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: 'F8FAFC', color: 'auto' },
+            indent: context.indent ? { left: 720 * context.indent } : undefined,
+            children: node.value.split('\n').map((line, i) =>
+              new TextRun({ text: line, font: CODE_FONT, size: 20, break: i > 0 ? 1 : undefined })
+            )
+          })];
+        case 'blockquote':
+          return blocks(node.children, { indent: context.indent + 1, quote: true });
+        case 'list': {
+          const level = context.list ? context.list.level + 1 : 0;
+          const list = node.ordered
+            ? { reference: ORDERED_REFERENCE, level, instance: ++orderedLists }
+            : { reference: BULLET_REFERENCE, level, instance: 0 };
+          return node.children.flatMap(item => listItem(item, { indent: context.indent + 1, quote: context.quote, list }));
+        }
+        case 'table':
+          return [table(node)];
+        case 'thematicBreak':
+          return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CBD5E1', space: 1 } }, children: [] })];
+        case 'html':
+          return [paragraph([new TextRun(node.value)], context, false)];
+        case 'footnoteDefinition':
+        case 'definition':
+        case 'yaml':
+          return [];
+        default:
+          return 'children' in node ? blocks(node.children as RootContent[], context) : [];
+      }
+    });
+
+  const body = blocks(tree.children, { indent: 0, quote: false });
+  const footnotes = Object.fromEntries(footnoteNodes.map(node => [
+    footnoteIds.get(node.identifier)!,
+    { children: blocks(node.children, { indent: 0, quote: false }).filter((b): b is Paragraph => b instanceof Paragraph) }
+  ]));
+
+  const levels = (format: (typeof LevelFormat)[keyof typeof LevelFormat], text: (level: number) => string) =>
+    Array.from({ length: 6 }, (_, level) => ({
+      level,
+      format,
+      text: text(level),
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+    }));
+
+  const doc = new Document({
+    title,
+    styles: {
+      default: {
+        document: { run: { font: { ascii: 'Calibri', hAnsi: 'Calibri', eastAsia: 'Microsoft YaHei' }, size: 22 } }
+      }
+    },
+    numbering: {
+      config: [
+        { reference: BULLET_REFERENCE, levels: levels(LevelFormat.BULLET, level => ['•', '◦', '▪'][level % 3]) },
+        { reference: ORDERED_REFERENCE, levels: levels(LevelFormat.DECIMAL, level => `%${level + 1}.`) }
+      ]
+    },
+    footnotes,
+    sections: [{ children: body }]
+  });
+
+  return Packer.toBlob(doc);
+};
+
+/**
+ * Builds the file for the chosen format and saves it; for PDF, opens the print dialog instead.
+ * `lang` is the language code of the text, used to tag HTML and PDF output.
+ */
+export const exportDocument = async (text: string, format: ExportFormat, fileName: string, lang: string): Promise<void> => {
+  const name = fileName.trim() || deriveFileName(text);
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([text], { type: 'text/markdown;charset=utf-8' }), `${name}.md`);
+      break;
+    case 'html':
+      downloadBlob(new Blob([await renderHtmlDocument(text, name, lang, true)], { type: 'text/html;charset=utf-8' }), `${name}.html`);
+      break;
+    case 'docx':
+      downloadBlob(await renderDocx(text, name), `${name}.docx`);
+      break;
+    case 'pdf':
+      await printDocument(text, name, lang);
+      break;
+  }
+};
@@ -1,310 +1,543 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AgentPlan, ReviewStep, AppConfig } from "../types";
+import { AgentPlan, ReviewStep, AppConfig, RequestOptions, GenerationRequest, DocumentAnalysis, JsonSchema, UsageRecord, PromptTemplate, CritiqueVerdict, RubricDimension, VersionScore, StepCandidate, ReviewComment, CommentSeverity } from "../types";
+import { withRetry } from "./retryService";
+import { DEFAULT_CHUNKING, estimateTokens, splitIntoSections, buildOutline, restoreSectionSpacing } from "./chunkService";
+import { getProvider } from "./providers";
+import { PLAN_SCHEMA, STEP_RESULT_SCHEMA, CRITIC_SCHEMA, SCORE_SCHEMA, COMMENT_SCHEMA, validateSchema } from "./schemas";
+import { repairJson } from "./jsonRepair";
+import { trackUsage } from "./usageService";
+import { getTemplate, renderTemplate } from "./promptTemplates";
+import { resolveLanguage, buildLanguageRules } from "./languageService";
+import { describeRevision, formatCritique } from "./criticService";
+import { resolveModelConfig } from "./modelRouting";
+import { anchorQuote } from "./commentService";
+import { assignStepIds } from "./planService";
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
 
 /**
- * Creates a GoogleGenAI instance with the provided API key.
+ * Reads the value of a string field out of a JSON document that is still being streamed.
+ * Stops before an incomplete escape sequence; returns null until the field has started.
  */
-const createAI = (apiKey: string) => {
-  if (!apiKey) {
-    throw new Error("API Key 未配置，请在设置中添加。");
+const extractPartialJsonString = (buffer: string, key: string): string | null => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return null;
+
+  let out = '';
+  let i = match.index + match[0].length;
+  while (i < buffer.length) {
+    const ch = buffer[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      out += ch;
+      i++;
+      continue;
+    }
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = buffer.substr(i + 2, 4);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    out += JSON_ESCAPES[next] ?? next;
+    i += 2;
   }
-  return new GoogleGenAI({ apiKey });
+  return out;
 };
 
 /**
- * Handles OpenAI compatible API calls.
+ * Sends one request to the configured provider under the retry and rate-limit policy.
+ * A retried stream starts over from the first chunk. Usage is reported through options.onUsage,
+ * estimated from the text when the provider does not return it.
  */
-const callOpenAI = async (
-  prompt: string, 
-  config: AppConfig, 
-  systemInstruction?: string,
-  jsonFormat: boolean = true
-): Promise<string> => {
-  const baseUrl = config.baseUrl || 'https://api.openai.com/v1';
-  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`; 
-  
-  const messages = [];
-  if (systemInstruction) {
-    messages.push({ role: 'system', content: systemInstruction });
-  }
-  messages.push({ role: 'user', content: prompt });
-
-  const body: any = {
+const generate = async (config: AppConfig, request: GenerationRequest, options: RequestOptions = {}): Promise<string> => {
+  const { signal, onRetry, onUsage } = options;
+  const provider = getProvider(config.provider);
+  const startedAt = Date.now();
+  const result = await withRetry(config, () => provider.generate({ ...request, signal }, config), { signal, onRetry });
+  onUsage?.({
+    provider: config.provider,
     model: config.model,
-    messages: messages,
-    // Add stream: false implicitly
-  };
+    inputTokens: result.usage?.inputTokens ?? estimateTokens(`${request.systemInstruction || ''}${request.prompt}`),
+    outputTokens: result.usage?.outputTokens ?? estimateTokens(result.text),
+    latencyMs: Date.now() - startedAt,
+    calls: 1,
+    estimated: !result.usage
+  });
+  return result.text;
+};
 
-  if (jsonFormat) {
-    body.response_format = { type: "json_object" };
-  }
+/**
+ * Plain-text generation, used for auxiliary calls that need no JSON envelope.
+ */
+const generatePlainText = (prompt: string, config: AppConfig, options: RequestOptions = {}): Promise<string> =>
+  generate(config, { prompt }, options);
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`
-      },
-      body: JSON.stringify(body)
-    });
+/**
+ * Renders a template with the language rules, appending them when a customised template
+ * leaves out the {languageRules} placeholder.
+ */
+const renderWithLanguage = (template: PromptTemplate, variables: Record<string, string>) => {
+  const rendered = renderTemplate(template, variables);
+  return template.body.includes('{languageRules}')
+    ? rendered
+    : { ...rendered, prompt: `${rendered.prompt}\n\n${variables.languageRules}` };
+};
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API Error (${response.status}): ${errorText}`);
+/**
+ * Parses and validates a response, falling back to repairJson when strict parsing fails.
+ */
+const parseResponse = (text: string, schema: JsonSchema): { value?: unknown; errors: string[] } => {
+  const candidates = [text.replace(/```json\n?|\n?```/g, '').trim(), repairJson(text)];
+  let errors: string[] = ['empty response'];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const value = JSON.parse(candidate);
+      errors = validateSchema(value, schema);
+      if (errors.length === 0) return { value, errors };
+    } catch (e: any) {
+      errors = [`invalid JSON: ${e.message}`];
     }
+  }
+  return { errors };
+};
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error("OpenAI API returned empty response.");
-    }
+/**
+ * Requests a JSON response matching request.schema. When the output cannot be parsed or
+ * repaired into a valid value, the model is shown its output and the validation errors and
+ * asked once to correct it before giving up.
+ */
+const generateStructured = async <T>(
+  config: AppConfig,
+  request: GenerationRequest & { schema: JsonSchema },
+  options: RequestOptions = {}
+): Promise<T> => {
+  const responseText = await generate(config, request, options);
+  const first = parseResponse(responseText, request.schema);
+  if (first.value !== undefined) return first.value as T;
 
-    return content;
-  } catch (error: any) {
-    console.error("OpenAI Call Failed:", error);
-    throw new Error(`Model request failed: ${error.message}`);
-  }
+  console.warn("Invalid structured response, asking the model to fix it:", first.errors, responseText);
+  const repair = renderTemplate(getTemplate(config, 'repair'), {
+    errors: first.errors.slice(0, 10).map(e => `- ${e}`).join('\n'),
+    previousOutput: responseText
+  });
+  const fixedText = await generate(config, { ...request, prompt: `${request.prompt}\n\n${repair.prompt}` }, options);
+
+  const second = parseResponse(fixedText, request.schema);
+  if (second.value !== undefined) return second.value as T;
+
+  console.error("Structured response still invalid after re-ask:", second.errors, fixedText);
+  throw new Error(`模型返回的格式不是有效的 JSON，请重试。(${second.errors.slice(0, 3).join('; ')})`);
 };
 
 /**
- * Analyzes the document and generates a review plan.
+ * Map step of map-reduce planning: condenses each section of an over-long document into a
+ * digest that keeps its structure, claims and data, then joins the digests in order.
  */
-export const analyzeAndPlan = async (text: string, config: AppConfig): Promise<AgentPlan> => {
-  const promptText = `
-    你是一个**自主认知的领域专家代理 (Autonomous Domain Expert Agent)**。
-    你的任务不是作为AI来回答问题，而是根据文档内容，**动态重塑**你自己的身份，从而对文档进行专家级的深度评审。
-
-    【核心原则 1：领域纯粹性 (Domain Purity)】
-    **严禁跨界缝合**。你必须严格遵守文档所属领域的**原生本体论**和**话语体系**。
-    - 命理学/玄学：使用“五行、八卦、气运、生克”，**严禁**使用“希尔伯特空间、量子纠缠、波函数坍缩”等科学术语强行解释。除非文档本身是科幻小说。
-    - 文学艺术：使用“意象、修辞、美学、叙事结构”，**严禁**使用“NLP算法、特征向量、逻辑回归”等工程术语。
-    - 现代科学/工程：严守实证主义和逻辑推导，**严禁**引入玄学、宗教或未经验证的伪科学概念。
-
-    【核心原则 2：现实锚定 (Reality Anchoring)】
-    **严禁捏造不存在的理论或专家头衔**。
-    - 你的身份必须是现实世界中**真实存在**的职业或学术职位（如“资深结构工程师”、“比较文学教授”、“中医内科主任医师”）。
-    - **绝对不要**创造“量子佛学研究员”、“赛博风水师”、“四维空间命理师”这种不存在的缝合怪身份。
-    - 你引用的标准必须是该领域**公认**的行业标准或学术共识，不要臆造不存在的“XXX统一场理论”。
-
-    【第一步：领域特征提取与身份构建】
-    请分析输入文档，进行以下元认知决策：
-    1. **核心领域识别**：这篇文档属于人类现存知识体系中的哪个具体节点？（精确到二级学科或具体工种）。
-    2. **最高权威定义**：在该领域现实中，谁拥有最高话语权？定义一个**真实存在的**角色头衔（Target Persona）。
-    3. **价值公理确定**：该领域的核心价值是什么？（如：法律追求严谨，文学追求共情，工程追求可行性）。
-
-    【第二步：专家级差距分析】
-    以【Target Persona】的身份审视文档：
-    - 按照该领域**真实的**专业标准，文档缺了什么？
-    - 指出具体的逻辑漏洞、数据缺失或理论深度不足。不要泛泛而谈。
-
-    【第三步：规划评审路径】
-    制定优化步骤，将文档提升至该领域的真实专业水平。
-    - 步骤必须是**业务深度**的扩展。
-    - 每一个步骤都必须直接增加文档的**含金量**（理论深度、数据精度、逻辑闭环、经典引证）。
-
-    请以 JSON 格式返回，所有中文字段使用简体中文。
-  `;
-
-  let responseText = '';
-
-  if (config.provider === 'openai') {
-    const schemaInstruction = `
-      Please strictly output JSON with the following structure:
-      {
-        "analysis": {
-          "category": "string (The precise subdomain derived from text)",
-          "assignedPersona": "string (The specific REAL-WORLD expert role. No fake titles.)",
-          "currentLevel": "string",
-          "targetLevel": "string",
-          "summary": "string",
-          "gapAnalysis": {
-            "professionalStandards": "string (The real-world first-principles standard of this domain)",
-            "missingContent": "string (Specific missing deep-domain logic, theory, or data)"
-          }
-        },
-        "steps": [
-          {
-            "id": "string (unique id)",
-            "name": "string (Actionable domain task)",
-            "description": "string (Detailed technical instruction)",
-            "reasoning": "string"
-          }
-        ]
-      }
-    `;
-    
-    const fullPrompt = `${promptText}\n\n${schemaInstruction}\n\n--- BEGIN DOCUMENT ---\n${text}\n--- END DOCUMENT ---`;
-    responseText = await callOpenAI(fullPrompt, config, "You are an autonomous meta-agent. Construct your own persona based on REAL WORLD roles. Maintain domain purity.");
-
-  } else {
-    // Gemini Path
-    const ai = createAI(config.apiKey);
-    const response = await ai.models.generateContent({
-      model: config.model,
-      contents: {
-        parts: [
-          { text: promptText },
-          { text: `--- BEGIN DOCUMENT ---\n${text}\n--- END DOCUMENT ---` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            analysis: {
-              type: Type.OBJECT,
-              properties: {
-                category: { type: Type.STRING, description: "识别到的精确细分领域（必须是真实存在的学科）" },
-                assignedPersona: { type: Type.STRING, description: "AI根据内容自主决定的专家身份头衔（必须是现实存在的职位）" },
-                currentLevel: { type: Type.STRING },
-                targetLevel: { type: Type.STRING },
-                summary: { type: Type.STRING },
-                gapAnalysis: {
-                  type: Type.OBJECT,
-                  properties: {
-                    professionalStandards: { type: Type.STRING, description: "该领域的第一性原理标准" },
-                    missingContent: { type: Type.STRING, description: "专家视角下不可容忍的专业内容缺失" }
-                  },
-                  required: ["professionalStandards", "missingContent"]
-                }
-              },
-              required: ["category", "assignedPersona", "currentLevel", "targetLevel", "summary", "gapAnalysis"]
-            },
-            steps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  reasoning: { type: Type.STRING },
-                },
-                required: ["id", "name", "description", "reasoning"]
-              }
-            }
-          },
-          required: ["analysis", "steps"]
-        }
-      }
+const condenseForPlanning = async (text: string, config: AppConfig, options: RequestOptions): Promise<string> => {
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const sections = splitIntoSections(text, chunking.maxSectionTokens);
+
+  // Sections are condensed in parallel; the provider rate limiter caps the concurrency
+  const template = getTemplate(config, 'condense');
+  const digests = await Promise.all(sections.map(section => {
+    const { prompt } = renderTemplate(template, {
+      sectionNumber: String(section.index + 1),
+      sectionCount: String(sections.length)
     });
-    responseText = response.text || '';
-  }
+    return generatePlainText(`${prompt}\n\n--- BEGIN SECTION ---\n${section.text}\n--- END SECTION ---`, config, options);
+  }));
 
-  if (!responseText) {
-    throw new Error("无法生成分析计划 (Empty Response)。");
-  }
+  return [
+    `【说明】原文过长（约 ${estimateTokens(text)} tokens），以下是按原文顺序生成的 ${sections.length} 个分段摘要。`,
+    ...digests.map((digest, i) => `## 第 ${i + 1} 部分${sections[i].heading ? `：${sections[i].heading}` : ''}\n\n${digest.trim()}`)
+  ].join('\n\n');
+};
+
+/**
+ * Analyzes the document and generates a review plan; plan.usage sums all calls made for it.
+ * Documents over the planning budget are condensed section by section first (map-reduce).
+ */
+export const analyzeAndPlan = async (text: string, mainConfig: AppConfig, requestOptions: RequestOptions = {}): Promise<AgentPlan> => {
+  const config = resolveModelConfig(mainConfig, 'planning');
+  const usage = trackUsage(requestOptions);
+  const options = usage.options;
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const documentText = chunking.enabled && estimateTokens(text) > chunking.maxPlanningTokens
+    ? await condenseForPlanning(text, config, options)
+    : text;
+  const language = resolveLanguage(config, text);
+  const { prompt, systemInstruction } = renderWithLanguage(getTemplate(config, 'plan'), {
+    languageRules: buildLanguageRules(language, 'plan')
+  });
+
+  const result = await generateStructured<{ analysis: DocumentAnalysis; steps: Omit<ReviewStep, 'status'>[] }>(config, {
+    prompt: `${prompt}\n\n--- BEGIN DOCUMENT ---\n${documentText}\n--- END DOCUMENT ---`,
+    systemInstruction,
+    schema: PLAN_SCHEMA
+  }, options);
+
+  const steps = assignStepIds(result.steps);
+
+  // Scores are keyed by dimension id, so ids must be present and unique
+  const seen = new Set<string>();
+  const rubric = (result.analysis.rubric || []).map((dimension, i) => {
+    let id = dimension.id?.trim() || `d${i + 1}`;
+    if (seen.has(id)) id = `${id}-${i + 1}`;
+    seen.add(id);
+    return { ...dimension, id };
+  });
+
+  return {
+    analysis: { ...result.analysis, rubric },
+    steps: steps,
+    usage: usage.total(),
+    language: language.code
+  };
+};
+
+/**
+ * Scores a version of the document against the rubric, one 1–10 score per dimension.
+ * Dimensions the model leaves out are omitted from the result rather than guessed.
+ * Documents over the planning budget are condensed first, as for planning.
+ */
+export const scoreVersion = async (
+  text: string,
+  rubric: RubricDimension[],
+  analysis: DocumentAnalysis,
+  mainConfig: AppConfig,
+  options: RequestOptions = {}
+): Promise<VersionScore> => {
+  const config = resolveModelConfig(mainConfig, 'critique');
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const documentText = chunking.enabled && estimateTokens(text) > chunking.maxPlanningTokens
+    ? await condenseForPlanning(text, config, options)
+    : text;
+  const { prompt, systemInstruction } = renderWithLanguage(getTemplate(config, 'score'), {
+    category: analysis.category,
+    persona: analysis.assignedPersona || analysis.category + " 专家",
+    rubric: rubric.map(d => `- [${d.id}] ${d.name}：${d.criteria}`).join('\n'),
+    languageRules: buildLanguageRules(resolveLanguage(config, text), 'plan')
+  });
 
-  const cleanJson = responseText.replace(/```json\n?|\n?```/g, '').trim();
-
-  try {
-    const result = JSON.parse(cleanJson);
-    
-    const steps: ReviewStep[] = result.steps.map((s: any) => ({
-      ...s,
-      id: s.id || Math.random().toString(36).substr(2, 9),
-      status: 'PENDING'
-    }));
-
-    return {
-      analysis: result.analysis,
-      steps: steps
-    };
-  } catch (e) {
-    console.error("JSON Parse Error:", e, cleanJson);
-    throw new Error("模型返回的格式不是有效的 JSON，请重试。");
+  const result = await generateStructured<{ scores: { dimensionId: string; rationale: string; score: number }[] }>(config, {
+    prompt: `${prompt}\n\n--- BEGIN DOCUMENT ---\n${documentText}\n--- END DOCUMENT ---`,
+    systemInstruction,
+    schema: SCORE_SCHEMA
+  }, options);
+
+  const ids = new Set(rubric.map(d => d.id));
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+  for (const item of result.scores) {
+    if (!ids.has(item.dimensionId)) continue;
+    scores[item.dimensionId] = Math.min(10, Math.max(1, Math.round(item.score)));
+    rationales[item.dimensionId] = item.rationale;
   }
+  return { scores, rationales, scoredAt: Date.now() };
 };
 
 /**
- * Executes a single step of the review plan.
+ * Streams the revisedText field to onProgress. It is requested first in the envelope so it can be
+ * previewed while the rest streams in.
  */
-export const executeStep = async (
+const previewRevisedText = (config: AppConfig, onProgress?: (partialText: string) => void) =>
+  onProgress && config.streaming !== false
+    ? (accumulated: string) => {
+        const partial = extractPartialJsonString(accumulated, 'revisedText');
+        if (partial !== null) onProgress(partial);
+      }
+    : undefined;
+
+/**
+ * Runs one step over the given text in a single request.
+ * context.sectionContext, when set, tells the model it is rewriting one section of a larger document;
+ * context.critique, when set, is the critic's reason for rejecting the previous attempt.
+ */
+const executeSinglePass = async (
   currentText: string,
   step: ReviewStep,
-  analysis: any,
-  config: AppConfig
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions,
+  context: { languageRules: string; sectionContext?: string; critique?: string }
 ): Promise<{ revisedText: string; diffSummary: string }> => {
+  const { onProgress } = options;
+
   // Extract the dynamically assigned persona from the analysis
   const persona = analysis.assignedPersona || analysis.category + " 专家";
   const standard = analysis.gapAnalysis?.professionalStandards || "行业最高标准";
 
-  const promptText = `
-    【身份激活程序】
-    系统检测到当前文档属于 **${analysis.category}** 领域。
-    你已加载身份：**${persona}**。
-    
-    【执行任务】
-    步骤名称：${step.name}
-    具体指令：${step.description}
-    目标标准：${standard}
-
-    【输出原则：真实性与纯粹性】
-    1. **严禁臆造**：你所补充的理论、数据、引用或案例，必须是**现实世界中真实存在的**。不要捏造虚假的论文、不存在的法律条文或虚构的历史事件。
-    2. **话语体系隔离**：彻底清洗语言风格。
-       - 如果是人文学科，杜绝理科味；
-       - 如果是玄学，杜绝科学味（严禁出现“量子纠缠”等词）；
-       - 如果是科学，杜绝玄学味。
-       - **严禁**出现“用量子力学解释八字”这种伪科学缝合。
-    3. **深度注入**：使用该领域**公认**的高级概念和分析框架进行重写。
-       - 不要在原有内容上修修补补。你需要利用你的专业知识，向文档中注入该领域特有的核心论据、公式推导、判例、代码实现或技术细节。
-    4. **去通用化**：删掉所有正确的废话。如果一句话放进任何行业的文档都通顺，那这句话就是垃圾，删掉它。
-    5. **融合重写**：输出的内容应该是经过你（${persona}）润色后的**完整文档正文**。
-
-    请返回 JSON，包含 revisedText (重写后的完整专业文档) 和 diffSummary (你作为专家具体增加了哪些硬核内容)。
-  `;
-
-  let responseText = '';
-
-  if (config.provider === 'openai') {
-    const schemaInstruction = `
-      Please strictly output JSON with the following structure:
-      {
-        "revisedText": "string (The full rewritten content, demonstrating extreme domain expertise, purity, and reality anchoring)",
-        "diffSummary": "string (Specific summary of the proprietary knowledge/logic added)"
-      }
-    `;
-    const fullPrompt = `${promptText}\n\n${schemaInstruction}\n\n--- INPUT TEXT ---\n${currentText}\n--- END INPUT TEXT ---`;
-    responseText = await callOpenAI(fullPrompt, config, `You are the ${persona}. Maintain strict domain purity and reality.`);
-  } else {
-    // Gemini Path
-    const ai = createAI(config.apiKey);
-    const response = await ai.models.generateContent({
-      model: config.model,
-      contents: {
-        parts: [
-          { text: promptText },
-          { text: `--- INPUT TEXT ---\n${currentText}\n--- END INPUT TEXT ---` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            revisedText: { type: Type.STRING },
-            diffSummary: { type: Type.STRING }
-          },
-          required: ["revisedText", "diffSummary"]
-        }
-      }
-    });
-    responseText = response.text || '';
+  const rendered = renderWithLanguage(getTemplate(config, 'execute'), {
+    category: analysis.category,
+    persona,
+    standard,
+    'step.name': step.name,
+    'step.description': step.description,
+    sectionContext: context.sectionContext || '',
+    languageRules: context.languageRules
+  });
+  const { systemInstruction } = rendered;
+  const prompt = context.critique
+    ? `${rendered.prompt}\n\n${renderTemplate(getTemplate(config, 'revise'), { critique: context.critique }).prompt}`
+    : rendered.prompt;
+
+  return generateStructured<{ revisedText: string; diffSummary: string }>(config, {
+    prompt: `${prompt}\n\n--- INPUT TEXT ---\n${currentText}\n--- END INPUT TEXT ---`,
+    systemInstruction,
+    schema: STEP_RESULT_SCHEMA,
+    onChunk: previewRevisedText(config, onProgress)
+  }, options);
+};
+
+const excerpt = (text: string, length: number, fromEnd: boolean) => {
+  const trimmed = text.trim();
+  if (trimmed.length <= length) return trimmed;
+  return fromEnd ? `…${trimmed.slice(-length)}` : `${trimmed.slice(0, length)}…`;
+};
+
+/**
+ * Runs one step section by section so that long documents stay within the model's output limit.
+ * Each section sees the outline, the revised end of the previous section with its change summary,
+ * and the start of the next one; the revised sections are stitched back in order.
+ */
+const executeChunked = async (
+  currentText: string,
+  step: ReviewStep,
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions,
+  maxSectionTokens: number,
+  languageRules: string,
+  critique?: string
+): Promise<{ revisedText: string; diffSummary: string }> => {
+  const sections = splitIntoSections(currentText, maxSectionTokens);
+  const outline = buildOutline(currentText);
+  const revised: string[] = [];
+  const summaries: string[] = [];
+
+  for (const section of sections) {
+    const total = sections.length;
+    const previous = revised[section.index - 1];
+    const previousSummary = summaries[section.index - 1];
+    const next = sections[section.index + 1];
+    options.onSection?.(section.index, total);
+
+    const sectionContext = renderTemplate(getTemplate(config, 'sectionContext'), {
+      sectionLabel: `第 ${section.index + 1}/${total} 部分${section.heading ? `（${section.heading}）` : ''}`,
+      outline: outline || '（无标题结构）',
+      previousExcerpt: previous ? excerpt(previous, 600, true) : '（无，这是第一部分）',
+      previousSummary: previousSummary || '（无）',
+      nextExcerpt: next ? excerpt(next.text, 600, false) : '（无，这是最后一部分）'
+    }).prompt;
+
+    const done = revised.join('');
+    const result = await executeSinglePass(section.text, step, analysis, config, {
+      ...options,
+      onProgress: options.onProgress && (partial => options.onProgress!(done + partial))
+    }, { languageRules, sectionContext, critique });
+
+    revised.push(restoreSectionSpacing(section.text, result.revisedText));
+    summaries.push(result.diffSummary);
+  }
+
+  return {
+    revisedText: revised.join(''),
+    diffSummary: summaries
+      .map((summary, i) => `【${sections[i].heading || `第 ${i + 1} 部分`}】${summary}`)
+      .join('\n')
+  };
+};
+
+/**
+ * Critic pass: asks the critique-phase model whether a revision
+ * carries out the step and the gap analysis without losing content, breaking structure or
+ * violating domain purity. The critic sees the change listing rather than both full texts.
+ */
+const critiqueRevision = async (
+  beforeText: string,
+  result: { revisedText: string; diffSummary: string },
+  step: ReviewStep,
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions,
+  languageRules: string,
+  attempt: number
+): Promise<CritiqueVerdict> => {
+  const criticConfig = resolveModelConfig(config, 'critique');
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const { prompt, systemInstruction } = renderWithLanguage(getTemplate(config, 'critic'), {
+    category: analysis.category,
+    persona: analysis.assignedPersona || analysis.category + " 专家",
+    standard: analysis.gapAnalysis?.professionalStandards || "行业最高标准",
+    missingContent: analysis.gapAnalysis?.missingContent || '（未提供）',
+    'step.name': step.name,
+    'step.description': step.description,
+    diffSummary: result.diffSummary,
+    languageRules
+  });
+
+  const verdict = await generateStructured<Omit<CritiqueVerdict, 'attempt'>>(criticConfig, {
+    prompt: `${prompt}\n\n${describeRevision(beforeText, result.revisedText, chunking.maxPlanningTokens)}`,
+    systemInstruction,
+    schema: CRITIC_SCHEMA
+  }, options);
+  return { ...verdict, attempt };
+};
+
+/**
+ * Executes a single step of the review plan.
+ * When options.onProgress is given and streaming is enabled, it receives the revised text as it is generated.
+ * Documents over the section budget are executed in chunks (see executeChunked).
+ * With the critic enabled, each attempt is reviewed and a rejected one is redone with the critique,
+ * up to config.critic.maxRetries times; the last attempt is returned even if it was rejected.
+ * The returned usage sums every call made for the step, including JSON re-asks and critic calls.
+ */
+export const executeStep = async (
+  currentText: string,
+  step: ReviewStep,
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions = {}
+): Promise<{ revisedText: string; diffSummary: string; usage?: UsageRecord; critiques?: CritiqueVerdict[] }> => {
+  const usage = trackUsage(options);
+  // The critic below resolves its own phase settings from the main config
+  const stepConfig = resolveModelConfig(config, 'execution', step.overrides);
+  // Resolved once for the whole text so that every section follows the same language rules
+  const language = resolveLanguage(config, currentText);
+  const languageRules = buildLanguageRules(language, 'execute', config.translateTo);
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const run = (critique?: string) => chunking.enabled && estimateTokens(currentText) > chunking.maxSectionTokens
+    ? executeChunked(currentText, step, analysis, stepConfig, usage.options, chunking.maxSectionTokens, languageRules, critique)
+    : executeSinglePass(currentText, step, analysis, stepConfig, usage.options, { languageRules, critique });
+
+  let result = await run();
+  if (!config.critic?.enabled) {
+    return { ...result, usage: usage.total() };
   }
 
-  if (!responseText) {
-    throw new Error(`执行步骤失败: ${step.name}`);
+  const critiques: CritiqueVerdict[] = [];
+  const criticRules = buildLanguageRules(language, 'plan');
+  for (let attempt = 1; ; attempt++) {
+    options.onCritique?.(attempt);
+    const verdict = await critiqueRevision(currentText, result, step, analysis, config, usage.options, criticRules, attempt);
+    critiques.push(verdict);
+    options.onCritique?.(attempt, verdict);
+    if (verdict.approved || attempt > config.critic.maxRetries) break;
+    result = await run(formatCritique(verdict));
   }
+  return { ...result, usage: usage.total(), critiques };
+};
+
+/**
+ * Merges candidate revisions of one step into a single revision. The original and every candidate
+ * are sent in one request, so the document is not split into sections here.
+ */
+export const mergeCandidates = async (
+  currentText: string,
+  step: ReviewStep,
+  candidates: StepCandidate[],
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions = {}
+): Promise<{ revisedText: string; diffSummary: string; usage?: UsageRecord }> => {
+  const usage = trackUsage(options);
+  const stepConfig = resolveModelConfig(config, 'execution', step.overrides);
+  const language = resolveLanguage(config, currentText);
+  const { prompt, systemInstruction } = renderWithLanguage(getTemplate(config, 'merge'), {
+    category: analysis.category,
+    persona: analysis.assignedPersona || analysis.category + " 专家",
+    candidateCount: String(candidates.length),
+    'step.name': step.name,
+    'step.description': step.description,
+    candidateSummaries: candidates.map((c, i) => `- 候选 ${i + 1}：${c.diffSummary}`).join('\n'),
+    languageRules: buildLanguageRules(language, 'execute', config.translateTo)
+  });
+  const documents = [
+    `--- ORIGINAL TEXT ---\n${currentText}\n--- END ORIGINAL TEXT ---`,
+    ...candidates.map((c, i) => `--- CANDIDATE ${i + 1} ---\n${c.revisedText}\n--- END CANDIDATE ${i + 1} ---`)
+  ].join('\n\n');
+
+  const result = await generateStructured<{ revisedText: string; diffSummary: string }>(stepConfig, {
+    prompt: `${prompt}\n\n${documents}`,
+    systemInstruction,
+    schema: STEP_RESULT_SCHEMA,
+    onChunk: previewRevisedText(config, options.onProgress)
+  }, usage.options);
+  return { ...result, usage: usage.total() };
+};
 
-  const cleanJson = responseText.replace(/```json\n?|\n?```/g, '').trim();
+interface RawComment {
+  quote: string;
+  severity: CommentSeverity;
+  issue: string;
+  suggestion?: string;
+}
 
-  try {
-    return JSON.parse(cleanJson);
-  } catch (e) {
-    console.error("JSON Parse Error:", e, cleanJson);
-    throw new Error("模型返回的格式不是有效的 JSON。");
+/**
+ * Runs a step in review-comments mode: the model comments on the text instead of rewriting it.
+ * Long documents are reviewed section by section. Each quote is anchored in the full text,
+ * near its section when it occurs more than once; comments whose quote is not found keep offset -1.
+ */
+export const commentOnStep = async (
+  currentText: string,
+  step: ReviewStep,
+  analysis: DocumentAnalysis,
+  config: AppConfig,
+  options: RequestOptions = {}
+): Promise<{ summary: string; comments: ReviewComment[]; usage?: UsageRecord }> => {
+  const usage = trackUsage(options);
+  const stepConfig = resolveModelConfig(config, 'execution', step.overrides);
+  // Comments are written for the author, so they follow the planning language rules
+  const languageRules = buildLanguageRules(resolveLanguage(config, currentText), 'plan');
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const sections = chunking.enabled && estimateTokens(currentText) > chunking.maxSectionTokens
+    ? splitIntoSections(currentText, chunking.maxSectionTokens)
+    : [{ index: 0, text: currentText }];
+
+  const summaries: string[] = [];
+  const comments: ReviewComment[] = [];
+  let sectionStart = 0;
+  for (const section of sections) {
+    const total = sections.length;
+    if (total > 1) options.onSection?.(section.index, total);
+    const label = `第 ${section.index + 1}/${total} 部分${section.heading ? `（${section.heading}）` : ''}`;
+    const { prompt, systemInstruction } = renderWithLanguage(getTemplate(config, 'comment'), {
+      category: analysis.category,
+      persona: analysis.assignedPersona || analysis.category + " 专家",
+      standard: analysis.gapAnalysis?.professionalStandards || "行业最高标准",
+      'step.name': step.name,
+      'step.description': step.description,
+      sectionNote: total > 1 ? `文档较长，正在分段评审，当前为${label}；只针对这一部分提出批注。` : '',
+      languageRules
+    });
+
+    const result = await generateStructured<{ summary: string; comments: RawComment[] }>(stepConfig, {
+      prompt: `${prompt}\n\n--- INPUT TEXT ---\n${section.text}\n--- END INPUT TEXT ---`,
+      systemInstruction,
+      schema: COMMENT_SCHEMA
+    }, usage.options);
+
+    summaries.push(total > 1 ? `【${section.heading || `第 ${section.index + 1} 部分`}】${result.summary}` : result.summary);
+    for (const raw of result.comments) {
+      const span = anchorQuote(currentText, raw.quote, sectionStart);
+      comments.push({
+        id: `c-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+        stepId: step.id,
+        quote: span ? currentText.slice(span.start, span.end) : raw.quote.trim(),
+        offset: span ? span.start : -1,
+        severity: raw.severity,
+        issue: raw.issue,
+        suggestion: raw.suggestion?.trim() ? raw.suggestion : undefined,
+        status: 'open',
+        createdAt: Date.now()
+      });
+    }
+    sectionStart += section.text.length;
   }
+
+  return { summary: summaries.join('\n'), comments, usage: usage.total() };
 };
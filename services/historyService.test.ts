@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { appendVersion, checkoutVersion, createDocumentState, getLineage } from './historyService';
+
+// root → a → b → c on the head's lineage, with a side branch b → x → y
+const buildHistory = () => {
+  let state = createDocumentState('root');
+  state = appendVersion(state, 'a', 'A');
+  state = appendVersion(state, 'b', 'B');
+  const b = state.headVersionId!;
+  state = appendVersion(state, 'x', 'X');
+  state = appendVersion(state, 'y', 'Y');
+  state = checkoutVersion(state, b, 'branch');
+  state = appendVersion(state, 'c', 'C');
+  return state;
+};
+
+const idOf = (state: ReturnType<typeof buildHistory>, text: string) => state.versions.find(v => v.text === text)!.id;
+
+describe('checkoutVersion', () => {
+  it('keeps later versions as a side branch when branching', () => {
+    const state = buildHistory();
+    const next = checkoutVersion(state, idOf(state, 'a'), 'branch');
+    expect(next.versions).toHaveLength(state.versions.length);
+    expect(next.currentText).toBe('a');
+    expect(getLineage(next.versions, next.headVersionId).map(v => v.text)).toEqual(['root', 'a']);
+  });
+
+  it('discards the later versions and the branches off them when restoring', () => {
+    const state = buildHistory();
+    const next = checkoutVersion(state, idOf(state, 'a'), 'restore');
+    expect(next.versions.map(v => v.text)).toEqual(['root', 'a']);
+    expect(next.headVersionId).toBe(idOf(state, 'a'));
+  });
+
+  it('keeps branches that start at the restored version', () => {
+    const state = buildHistory();
+    const next = checkoutVersion(state, idOf(state, 'b'), 'restore');
+    expect(next.versions.map(v => v.text)).toEqual(['root', 'a', 'b', 'x', 'y']);
+    const ids = new Set(next.versions.map(v => v.id));
+    expect(next.versions.every(v => !v.parentId || ids.has(v.parentId))).toBe(true);
+  });
+
+  it('restores a version off the current branch without discarding anything', () => {
+    const state = buildHistory();
+    const next = checkoutVersion(state, idOf(state, 'y'), 'restore');
+    expect(next.versions).toHaveLength(state.versions.length);
+    expect(next.currentText).toBe('y');
+  });
+});
@@ -0,0 +1,168 @@
+import { DocumentState, DocumentVersion, ReviewComment, ReviewStep, StepStatus, VersionScore } from "../types";
+
+export const EMPTY_DOCUMENT: DocumentState = {
+  originalText: '',
+  currentText: '',
+  version: 0,
+  versions: [],
+  headVersionId: null
+};
+
+const createVersionId = () => `v-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+/**
+ * Starts a new document history with the original text as its root version.
+ */
+export const createDocumentState = (text: string): DocumentState => {
+  const root: DocumentVersion = {
+    id: createVersionId(),
+    version: 1,
+    text,
+    label: '原始文档',
+    createdAt: Date.now()
+  };
+  return {
+    originalText: text,
+    currentText: text,
+    version: 1,
+    versions: [root],
+    headVersionId: root.id
+  };
+};
+
+/**
+ * Records a new revision on top of the current head and makes it the head.
+ */
+export const appendVersion = (
+  state: DocumentState,
+  text: string,
+  label: string,
+  meta: { stepId?: string; diffSummary?: string; manual?: boolean } = {}
+): DocumentState => {
+  const next: DocumentVersion = {
+    id: createVersionId(),
+    version: state.version + 1,
+    parentId: state.headVersionId || undefined,
+    text,
+    label,
+    stepId: meta.stepId,
+    manual: meta.manual || undefined,
+    diffSummary: meta.diffSummary,
+    createdAt: Date.now()
+  };
+  return {
+    ...state,
+    currentText: text,
+    version: next.version,
+    versions: [...state.versions, next],
+    headVersionId: next.id
+  };
+};
+
+/**
+ * Adds review comments to the document. They are not tied to a version and follow the current text.
+ */
+export const addComments = (state: DocumentState, comments: ReviewComment[]): DocumentState => ({
+  ...state,
+  comments: [...(state.comments || []), ...comments]
+});
+
+export const setCommentStatus = (state: DocumentState, commentId: string, status: ReviewComment['status']): DocumentState => ({
+  ...state,
+  comments: state.comments?.map(c => c.id === commentId ? { ...c, status } : c)
+});
+
+/**
+ * Attaches quality scores to a version. A version that no longer exists is ignored.
+ */
+export const setVersionScore = (state: DocumentState, versionId: string, score: VersionScore): DocumentState => ({
+  ...state,
+  versions: state.versions.map(v => v.id === versionId ? { ...v, score } : v)
+});
+
+/**
+ * Returns the chain of versions from the original document up to the given version.
+ */
+export const getLineage = (versions: DocumentVersion[], versionId: string | null): DocumentVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const lineage: DocumentVersion[] = [];
+  let cursor = versionId ? byId.get(versionId) : undefined;
+  while (cursor) {
+    lineage.unshift(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return lineage;
+};
+
+/**
+ * The versions restoring `versionId` discards: those after it on the head's lineage, and every
+ * version branched off them, which would otherwise be left with a parent that no longer exists.
+ */
+export const versionsDiscardedByRestore = (
+  versions: DocumentVersion[],
+  headVersionId: string | null,
+  versionId: string
+): DocumentVersion[] => {
+  const headLineage = getLineage(versions, headVersionId);
+  const targetIndex = headLineage.findIndex(v => v.id === versionId);
+  if (targetIndex === -1) return [];
+  const discarded = new Set(headLineage.slice(targetIndex + 1).map(v => v.id));
+  // Versions are appended after their parent, so one pass in order reaches every descendant
+  for (const v of versions) {
+    if (v.parentId && discarded.has(v.parentId)) discarded.add(v.id);
+  }
+  return versions.filter(v => discarded.has(v.id));
+};
+
+/**
+ * Moves the head to an earlier version.
+ * 'restore' discards the versions between it and the old head, with the branches off them;
+ * 'branch' keeps them as a side branch.
+ */
+export const checkoutVersion = (
+  state: DocumentState,
+  versionId: string,
+  mode: 'restore' | 'branch'
+): DocumentState => {
+  const target = state.versions.find(v => v.id === versionId);
+  if (!target) return state;
+
+  let versions = state.versions;
+  if (mode === 'restore') {
+    const discarded = new Set(versionsDiscardedByRestore(state.versions, state.headVersionId, versionId).map(v => v.id));
+    versions = versions.filter(v => !discarded.has(v.id));
+  }
+
+  return {
+    ...state,
+    currentText: target.text,
+    versions,
+    headVersionId: target.id
+  };
+};
+
+/**
+ * Derives step status from the active lineage: steps whose revision is on it are completed,
+ * completed or failed steps whose revision is not are reset to pending. Steps that left comments
+ * produced no revision and keep their status.
+ */
+export const syncStepsWithLineage = (steps: ReviewStep[], lineage: DocumentVersion[]): ReviewStep[] => {
+  return steps.map(step => {
+    const produced = lineage.find(v => v.stepId === step.id);
+    if (produced) {
+      return {
+        ...step,
+        status: StepStatus.COMPLETED,
+        output: produced.text,
+        diffSummary: produced.diffSummary
+      };
+    }
+    if (step.commentCount !== undefined) {
+      return step;
+    }
+    if (step.status === StepStatus.COMPLETED || step.status === StepStatus.FAILED) {
+      return { ...step, status: StepStatus.PENDING, output: undefined, diffSummary: undefined, losses: undefined };
+    }
+    return step;
+  });
+};
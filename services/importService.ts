@@ -0,0 +1,377 @@
+/**
+ * Client-side conversion of uploaded files into the markdown the review pipeline works on.
+ * The DOCX and PDF libraries are loaded on first use.
+ */
+
+export type ImportFormat = 'text' | 'docx' | 'pdf' | 'html';
+
+export interface ImportResult {
+  text: string;
+  format: ImportFormat;
+  warnings: string[]; // Elements that could not be carried over, e.g. images and comments
+}
+
+export const IMPORT_ACCEPT = '.txt,.md,.json,.js,.ts,.docx,.pdf,.html,.htm';
+
+/**
+ * Tallies dropped elements by kind so that warnings read "已忽略 3 处图片" rather than one per image.
+ */
+class DropCounter {
+  private counts = new Map<string, number>();
+
+  add(kind: string, n: number = 1) {
+    if (n > 0) this.counts.set(kind, (this.counts.get(kind) || 0) + n);
+  }
+
+  toWarnings(): string[] {
+    return Array.from(this.counts, ([kind, n]) => `已忽略 ${n} 处${kind}`);
+  }
+}
+
+// ---------- HTML ----------
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET',
+  'FIGCAPTION', 'FIGURE', 'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN',
+  'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL'
+]);
+
+// Content that has no text representation; reported as dropped
+const MEDIA_TAGS: Record<string, string> = {
+  IMG: '图片', PICTURE: '图片', SVG: '矢量图', CANVAS: '画布', VIDEO: '视频', AUDIO: '音频',
+  IFRAME: '嵌入页面', OBJECT: '嵌入对象', EMBED: '嵌入对象'
+};
+
+// Markup that is never part of the document text; dropped silently
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'META', 'LINK', 'TITLE', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA']);
+
+const FOOTNOTE_ID = /^(footnote|endnote)-(\d+)$/;
+const FOOTNOTE_LINK = /^#(footnote|endnote)-(\d+)$/;
+const FOOTNOTE_BACKLINK = /^#(footnote|endnote)-ref-\d+$/;
+
+const footnoteLabel = (kind: string, n: string) => (kind === 'endnote' ? `e${n}` : n);
+
+const isBlock = (node: Node) => node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+/**
+ * Wraps inline content in emphasis markers, keeping surrounding whitespace outside them.
+ */
+const wrapInline = (content: string, marker: string) => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+};
+
+const convertInline = (node: Node, drops: DropCounter): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName;
+  if (IGNORED_TAGS.has(tag)) return '';
+  if (MEDIA_TAGS[tag]) {
+    drops.add(MEDIA_TAGS[tag]);
+    return '';
+  }
+
+  const children = () => Array.from(el.childNodes).map(child => convertInline(child, drops)).join('');
+  switch (tag) {
+    case 'BR':
+      return '\n';
+    case 'STRONG':
+    case 'B':
+      return wrapInline(children(), '**');
+    case 'EM':
+    case 'I':
+      return wrapInline(children(), '*');
+    case 'DEL':
+    case 'S':
+      return wrapInline(children(), '~~');
+    case 'CODE':
+      return el.textContent ? `\`${el.textContent}\`` : '';
+    case 'A': {
+      const href = el.getAttribute('href') || '';
+      const footnote = href.match(FOOTNOTE_LINK);
+      if (footnote) return `[^${footnoteLabel(footnote[1], footnote[2])}]`;
+      if (FOOTNOTE_BACKLINK.test(href)) return '';
+      const text = children();
+      return href && !href.startsWith('#') && !/^javascript:/i.test(href) && text.trim() ? `[${text.trim()}](${href})` : text;
+    }
+    default:
+      // Blocks nested inside inline content (or table cells) are flattened
+      return isBlock(el) ? ` ${convertChildren(el, drops, ' ')} ` : children();
+  }
+};
+
+/**
+ * Converts a node's children, grouping runs of inline content into paragraphs.
+ */
+const convertChildren = (parent: Node, drops: DropCounter, separator: string = '\n\n'): string => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = inline.split('\n').map(line => line.trim()).join('\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  parent.childNodes.forEach(node => {
+    if (isBlock(node)) {
+      flush();
+      const md = convertBlock(node as Element, drops);
+      if (md.trim()) blocks.push(md);
+    } else {
+      inline += convertInline(node, drops);
+    }
+  });
+  flush();
+  return blocks.join(separator);
+};
+
+const convertList = (list: Element, drops: DropCounter): string => {
+  const items = Array.from(list.children).filter(child => child.tagName === 'LI');
+
+  // Word footnotes and endnotes (as produced by mammoth) become markdown footnote definitions
+  if (items.length > 0 && items.every(item => FOOTNOTE_ID.test(item.id))) {
+    return items.map(item => {
+      const [, kind, n] = item.id.match(FOOTNOTE_ID)!;
+      return `[^${footnoteLabel(kind, n)}]: ${convertChildren(item, drops, ' ').replace(/\n+/g, ' ')}`;
+    }).join('\n');
+  }
+
+  const ordered = list.tagName === 'OL';
+  let n = Number(list.getAttribute('start')) || 1;
+  return items.map(item => {
+    const marker = ordered ? `${n++}. ` : '- ';
+    const lines = convertChildren(item, drops, '\n').split('\n');
+    return [marker + lines[0], ...lines.slice(1).map(line => (line ? ' '.repeat(marker.length) + line : ''))].join('\n');
+  }).join('\n');
+};
+
+const convertTable = (table: HTMLTableElement, drops: DropCounter): string => {
+  const rows = Array.from(table.rows).map(row => Array.from(row.cells).flatMap(cell => {
+    const text = convertChildren(cell, drops, ' ').replace(/\n+/g, ' ').replace(/\|/g, '\\|').trim();
+    if (cell.rowSpan > 1) drops.add('表格纵向合并（已拆为单行）');
+    // Horizontally merged cells keep their column position
+    return [text, ...Array(Math.max(0, cell.colSpan - 1)).fill('')];
+  }));
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+};
+
+const convertBlock = (el: Element, drops: DropCounter): string => {
+  switch (el.tagName) {
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const text = convertChildren(el, drops, ' ').replace(/\s+/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(el.tagName[1]))} ${text}` : '';
+    }
+    case 'UL':
+    case 'OL':
+      return convertList(el, drops);
+    case 'TABLE':
+      return convertTable(el as HTMLTableElement, drops);
+    case 'BLOCKQUOTE':
+      return convertChildren(el, drops).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'PRE':
+      return `\`\`\`\n${(el.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+    case 'HR':
+      return '---';
+    default:
+      return convertChildren(el, drops);
+  }
+};
+
+/**
+ * Converts an HTML document or fragment to markdown: headings, paragraphs, emphasis, links,
+ * (nested) lists, tables, block quotes, code and footnotes. Media is dropped and counted.
+ */
+const convertHtml = (html: string, drops: DropCounter): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return convertChildren(doc.body, drops)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+export const htmlToMarkdown = (html: string): { markdown: string; warnings: string[] } => {
+  const drops = new DropCounter();
+  const markdown = convertHtml(html, drops);
+  return { markdown, warnings: drops.toWarnings() };
+};
+
+// ---------- DOCX ----------
+
+/**
+ * Counts elements of a given type in mammoth's document tree.
+ */
+const countElements = (element: any, type: string): number =>
+  (element.type === type ? 1 : 0) +
+  (element.children || []).reduce((sum: number, child: any) => sum + countElements(child, type), 0);
+
+const convertDocx = async (file: File): Promise<ImportResult> => {
+  const mammoth = (await import('mammoth')).default;
+  const drops = new DropCounter();
+
+  const result = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() }, {
+    // Images are not carried over; counting them here reports them even without an <img> tag
+    convertImage: mammoth.images.imgElement(async () => {
+      drops.add('图片');
+      return { src: '' };
+    }),
+    transformDocument: (document: any) => {
+      drops.add('批注', countElements(document, 'commentReference'));
+      return document;
+    }
+  });
+
+  // Placeholder <img> elements were already counted via convertImage
+  const markdown = convertHtml(result.value.replace(/<img[^>]*>/g, ''), drops);
+  const messages = Array.from(new Set(result.messages.map(m => m.message)));
+  return {
+    text: markdown,
+    format: 'docx',
+    warnings: [...drops.toWarnings(), ...messages]
+  };
+};
+
+// ---------- PDF ----------
+
+interface PdfLine {
+  text: string;
+  height: number;
+  y: number;
+}
+
+const PDF_COMMENT_SUBTYPES = new Set(['Text', 'FreeText', 'Highlight', 'Underline', 'StrikeOut', 'Squiggly', 'Ink']);
+
+const CJK_END = /[　-ヿ㐀-鿿＀-￯]$/;
+
+/**
+ * Joins the lines of one paragraph: no space between CJK lines, and end-of-line hyphens are mended.
+ */
+const joinLines = (lines: string[]) => lines.reduce((text, line) => {
+  if (!text) return line;
+  if (/[A-Za-z]-$/.test(text)) return text.slice(0, -1) + line;
+  return CJK_END.test(text) ? text + line : `${text} ${line}`;
+}, '');
+
+const convertPdf = async (file: File): Promise<ImportResult> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const drops = new DropCounter();
+  const emptyPages: number[] = [];
+  const pages: PdfLine[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const lines: PdfLine[] = [];
+    let current: PdfLine | null = null;
+
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      if (!current) current = { text: '', height: 0, y: item.transform[5] };
+      current.text += item.str;
+      current.height = Math.max(current.height, item.height);
+      if (item.hasEOL) {
+        lines.push(current);
+        current = null;
+      }
+    }
+    if (current) lines.push(current);
+
+    const textLines = lines.filter(line => line.text.trim() && !/^\s*\d+\s*$/.test(line.text)); // drop page numbers
+    if (textLines.length === 0) emptyPages.push(pageNumber);
+    pages.push(textLines);
+
+    const ops = await page.getOperatorList();
+    drops.add('图片', ops.fnArray.filter(fn => fn === pdfjs.OPS.paintImageXObject || fn === pdfjs.OPS.paintInlineImageXObject).length);
+    const annotations = await page.getAnnotations();
+    drops.add('批注', annotations.filter(a => PDF_COMMENT_SUBTYPES.has(a.subtype)).length);
+  }
+
+  const allLines = pages.flat();
+  if (allLines.length === 0) {
+    throw new Error('该 PDF 没有可提取的文本层（可能是扫描件），请先进行 OCR 后再导入。');
+  }
+
+  // Body text size is the line height carrying the most text; noticeably larger lines are treated as headings
+  const heightCounts = new Map<number, number>();
+  allLines.forEach(line => {
+    const h = Math.round(line.height);
+    heightCounts.set(h, (heightCounts.get(h) || 0) + line.text.length);
+  });
+  const bodyHeight = Array.from(heightCounts).reduce((a, b) => (b[1] > a[1] ? b : a))[0] || 10;
+  const headingPrefix = (line: PdfLine) => {
+    const ratio = line.height / bodyHeight;
+    if (ratio < 1.2 || line.text.trim().length > 80) return '';
+    return ratio >= 1.8 ? '# ' : ratio >= 1.45 ? '## ' : '### ';
+  };
+
+  const blocks: string[] = [];
+  for (const lines of pages) {
+    let paragraph: string[] = [];
+    const flush = () => {
+      if (paragraph.length) blocks.push(joinLines(paragraph));
+      paragraph = [];
+    };
+    lines.forEach((line, i) => {
+      const text = line.text.trim();
+      const prefix = headingPrefix(line);
+      if (prefix) {
+        flush();
+        blocks.push(prefix + text);
+        return;
+      }
+      // A vertical gap well beyond the line height starts a new paragraph
+      const previous = lines[i - 1];
+      if (previous && Math.abs(previous.y - line.y) > Math.max(line.height, previous.height) * 1.6) flush();
+      paragraph.push(text);
+    });
+    flush();
+  }
+
+  const warnings = drops.toWarnings();
+  if (emptyPages.length > 0) {
+    warnings.push(`第 ${emptyPages.join('、')} 页没有文本层，已跳过`);
+  }
+  warnings.push('PDF 的版式信息有限，标题层级与表格可能需要手动校对');
+  return { text: blocks.join('\n\n'), format: 'pdf', warnings };
+};
+
+// ---------- Entry point ----------
+
+const readAsText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`读取文件失败: ${reader.error?.message}`));
+  reader.readAsText(file);
+});
+
+/**
+ * Reads an uploaded or dropped file, converting Word, PDF and HTML to markdown.
+ * Anything else is read as plain text.
+ */
+export const importFile = async (file: File): Promise<ImportResult> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'docx':
+      return convertDocx(file);
+    case 'pdf':
+      return convertPdf(file);
+    case 'html':
+    case 'htm': {
+      const { markdown, warnings } = htmlToMarkdown(await readAsText(file));
+      return { text: markdown, format: 'html', warnings };
+    }
+    case 'doc':
+      throw new Error('不支持旧版 .doc 格式，请在 Word 中另存为 .docx 后再导入。');
+    default:
+      return { text: await readAsText(file), format: 'text', warnings: [] };
+  }
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { repairJson } from './jsonRepair';
+
+const parse = (raw: string) => JSON.parse(repairJson(raw));
+
+describe('repairJson', () => {
+  it('strips code fences and surrounding prose', () => {
+    expect(parse('Here is the plan:\n```json\n{"a": 1}\n```\nHope this helps.')).toEqual({ a: 1 });
+  });
+
+  it('drops trailing commas', () => {
+    expect(parse('{"items": [1, 2, ], "b": true, }')).toEqual({ items: [1, 2], b: true });
+  });
+
+  it('escapes unescaped quotes and raw newlines inside strings', () => {
+    expect(parse('{"text": "He said "hi" to me\nthen left", "n": 1}')).toEqual({ text: 'He said "hi" to me\nthen left', n: 1 });
+  });
+
+  it('keeps valid escapes', () => {
+    expect(parse('{"path": "C:\\\\dir", "quote": "\\"x\\""}')).toEqual({ path: 'C:\\dir', quote: '"x"' });
+  });
+
+  it('completes truncated output', () => {
+    expect(parse('{"revisedText": "partial sen')).toEqual({ revisedText: 'partial sen' });
+    expect(parse('{"steps": [{"id": "1"}, {"id": "2", "name"')).toEqual({ steps: [{ id: '1' }, { id: '2' }] });
+    expect(parse('{"a": "x", "b":')).toEqual({ a: 'x' });
+    expect(parse('{"list": [1, 2,')).toEqual({ list: [1, 2] });
+  });
+
+  it('ignores stray closers and text after the value', () => {
+    expect(parse('{"a": [1]]} trailing } text')).toEqual({ a: [1] });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Best-effort repair of almost-JSON produced by language models. Strict parsing is always
+ * tried first; these fixes only run on text that JSON.parse has already rejected.
+ */
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Removes markdown code fences and any prose before the first { or [.
+ */
+const extractJsonBody = (raw: string): string => {
+  const text = raw.replace(/```(?:json)?\s*\n?|\n?```/g, '').trim();
+  const start = text.search(/[{[]/);
+  return start < 0 ? text : text.slice(start);
+};
+
+/**
+ * A quote inside a string is treated as its end only if it is followed by something that can
+ * legally follow a string (, : } ] or the end of input); otherwise it is an unescaped quote.
+ */
+const closesString = (text: string, quoteIndex: number): boolean => {
+  const next = text.slice(quoteIndex + 1).match(/^\s*(\S)/)?.[1];
+  return next === undefined || ',:}]'.includes(next);
+};
+
+/**
+ * Repairs the common failure modes of model output:
+ * - code fences and leading/trailing prose
+ * - trailing commas before } or ]
+ * - unescaped quotes and raw control characters inside strings
+ * - truncated output (unterminated string, dangling key or comma, unclosed brackets)
+ */
+export const repairJson = (raw: string): string => {
+  const text = extractJsonBody(raw);
+  const stack: string[] = [];
+  let out = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) {
+        out += ch;
+        escaped = false;
+      } else if (ch === '\\') {
+        out += ch;
+        escaped = true;
+      } else if (ch === '"') {
+        if (closesString(text, i)) {
+          inString = false;
+          out += ch;
+        } else {
+          out += '\\"';
+        }
+      } else if (ch === '\n') {
+        out += '\\n';
+      } else if (ch === '\r') {
+        out += '\\r';
+      } else if (ch === '\t') {
+        out += '\\t';
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      if (CLOSERS[stack[stack.length - 1]] !== ch) continue; // stray closer
+      stack.pop();
+      out = out.replace(/,\s*$/, '') + ch;
+      // Anything after the top-level value is trailing prose
+      if (stack.length === 0) return out;
+    } else {
+      out += ch;
+    }
+  }
+
+  // Truncated output: terminate the open string, drop what cannot be completed, close brackets
+  if (inString) {
+    if (escaped) out = out.slice(0, -1);
+    out += '"';
+  }
+  out = out.replace(/,\s*$/, '');
+  if (stack[stack.length - 1] === '{') {
+    // A key with no value yet: `, "key"` or `, "key":`
+    out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*(?::\s*)?$/, (_, before) => before === '{' ? '{' : '');
+  }
+  while (stack.length) {
+    out += CLOSERS[stack.pop()!];
+  }
+  return out;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { AppConfig } from '../types';
+import { detectLanguage, outputLanguage } from './languageService';
+
+const config = (changes: Partial<AppConfig> = {}): AppConfig => ({ apiKey: '', provider: 'gemini', model: 'm', ...changes });
+
+describe('detectLanguage', () => {
+  it('tells scripts and Latin languages apart', () => {
+    expect(detectLanguage('这是一个关于系统设计的文档。')).toBe('zh-CN');
+    expect(detectLanguage('這是一個關於系統設計的文檔。')).toBe('zh-TW');
+    expect(detectLanguage('これはシステム設計についての文書です。')).toBe('ja');
+    expect(detectLanguage('The design of the system is described here.')).toBe('en');
+    expect(detectLanguage('Der Entwurf und die Umsetzung sind nicht einfach.')).toBe('de');
+  });
+});
+
+describe('outputLanguage', () => {
+  it('prefers the translation target, then the setting, then detection', () => {
+    const text = 'The design of the system is described here.';
+    expect(outputLanguage(config(), text)).toBe('en');
+    expect(outputLanguage(config({ documentLanguage: 'fr' }), text)).toBe('fr');
+    expect(outputLanguage(config({ translateTo: 'ja' }), text)).toBe('ja');
+  });
+});
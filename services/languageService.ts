@@ -0,0 +1,135 @@
+import { AppConfig } from "../types";
+
+/**
+ * A supported document language and the output rules enforced for it, written in that language.
+ */
+export interface LanguageProfile {
+  code: string;
+  label: string; // Shown in the UI
+  analysisRule: string; // Language of the analysis, step names and diffSummary
+  preserveRule: string; // Keeps revisedText in this language
+  translateRule: string; // Translates revisedText into this language
+}
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    code: 'zh-CN',
+    label: '简体中文',
+    analysisRule: '分析结果（analysis 各字段、步骤名称与描述）及 diffSummary 一律使用简体中文。',
+    preserveRule: 'revisedText 必须保持简体中文，不得整体或局部翻译为其他语言（专有名词、术语原文与引文除外）。',
+    translateRule: '在优化的同时，将 revisedText 完整翻译为简体中文，术语采用该领域通行的中文译法，不得保留未翻译的段落。'
+  },
+  {
+    code: 'zh-TW',
+    label: '繁體中文',
+    analysisRule: '分析結果（analysis 各欄位、步驟名稱與描述）及 diffSummary 一律使用繁體中文。',
+    preserveRule: 'revisedText 必須保持繁體中文，不得整體或局部翻譯為其他語言（專有名詞、術語原文與引文除外）。',
+    translateRule: '在優化的同時，將 revisedText 完整翻譯為繁體中文，術語採用該領域通行的譯法，不得保留未翻譯的段落。'
+  },
+  {
+    code: 'en',
+    label: 'English',
+    analysisRule: 'Write every analysis field, step name and description, and diffSummary in English.',
+    preserveRule: 'revisedText must stay in English. Do not translate any part of it into Chinese or any other language (proper nouns, original terminology and quotations excepted).',
+    translateRule: 'While refining, translate revisedText completely into English, using the established English terminology of the domain. Leave no untranslated passages.'
+  },
+  {
+    code: 'ja',
+    label: '日本語',
+    analysisRule: '分析結果（analysis の各フィールド、ステップ名と説明）および diffSummary はすべて日本語で記述すること。',
+    preserveRule: 'revisedText は日本語のまま維持し、全体または一部を中国語など他の言語に翻訳しないこと（固有名詞・原語の用語・引用を除く）。',
+    translateRule: '改善と同時に、revisedText を日本語へ完全に翻訳すること。用語は当該分野で定着した訳語を用い、未翻訳の箇所を残さないこと。'
+  },
+  {
+    code: 'ko',
+    label: '한국어',
+    analysisRule: '분석 결과(analysis의 모든 필드, 단계 이름과 설명) 및 diffSummary는 모두 한국어로 작성한다.',
+    preserveRule: 'revisedText는 한국어를 유지해야 하며, 전체 또는 일부를 중국어 등 다른 언어로 번역하지 않는다(고유명사, 원어 용어, 인용 제외).',
+    translateRule: '개선과 동시에 revisedText를 한국어로 완전히 번역한다. 해당 분야에서 통용되는 용어를 사용하고 번역되지 않은 부분을 남기지 않는다.'
+  },
+  {
+    code: 'de',
+    label: 'Deutsch',
+    analysisRule: 'Verfasse alle Analysefelder, Schrittnamen und -beschreibungen sowie diffSummary auf Deutsch.',
+    preserveRule: 'revisedText muss auf Deutsch bleiben. Übersetze keinen Teil davon ins Chinesische oder in eine andere Sprache (Eigennamen, Originalfachbegriffe und Zitate ausgenommen).',
+    translateRule: 'Übersetze revisedText beim Überarbeiten vollständig ins Deutsche und verwende die etablierte Fachterminologie. Lass keine unübersetzten Passagen stehen.'
+  },
+  {
+    code: 'fr',
+    label: 'Français',
+    analysisRule: "Rédige tous les champs d'analyse, les noms et descriptions des étapes ainsi que diffSummary en français.",
+    preserveRule: "revisedText doit rester en français. N'en traduis aucune partie en chinois ni dans une autre langue (noms propres, termes d'origine et citations exceptés).",
+    translateRule: "Tout en améliorant le texte, traduis intégralement revisedText en français en utilisant la terminologie établie du domaine. Ne laisse aucun passage non traduit."
+  },
+  {
+    code: 'es',
+    label: 'Español',
+    analysisRule: 'Redacta todos los campos del análisis, los nombres y descripciones de los pasos y diffSummary en español.',
+    preserveRule: 'revisedText debe permanecer en español. No traduzcas ninguna parte al chino ni a otro idioma (salvo nombres propios, términos originales y citas).',
+    translateRule: 'Mientras mejoras el texto, traduce revisedText íntegramente al español usando la terminología establecida del campo. No dejes pasajes sin traducir.'
+  }
+];
+
+export const getLanguage = (code: string): LanguageProfile =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+// Characters whose simplified and traditional forms differ, used to tell the two apart
+const SIMPLIFIED = /[这个们来说为会对时于学国与发经体实现点关]/g;
+const TRADITIONAL = /[這個們來說為會對時於學國與發經體實現點關]/g;
+
+const STOPWORDS: Record<string, RegExp> = {
+  en: /\b(the|and|of|to|is|that|with|for)\b/gi,
+  de: /\b(der|die|und|das|ist|nicht|mit|ein)\b/gi,
+  fr: /\b(le|les|et|des|est|une|dans|pour)\b/gi,
+  es: /\b(el|los|y|que|una|por|para|con)\b/gi
+};
+
+/**
+ * Guesses the document language from its script, then from common function words for Latin text.
+ * Only the first few thousand characters are looked at.
+ */
+export const detectLanguage = (text: string): string => {
+  const sample = text.slice(0, 5000);
+  const count = (pattern: RegExp) => sample.match(pattern)?.length || 0;
+
+  const kana = count(/[぀-ヿ]/g);
+  const hangul = count(/[가-힯]/g);
+  const han = count(/[一-鿿]/g);
+  const words = count(/[A-Za-zÀ-ÿ]+/g);
+
+  // Japanese text mixes kanji with a substantial share of kana
+  if (kana > 0 && kana >= (han + kana) * 0.1) return 'ja';
+  if (hangul > han && hangul >= words) return 'ko';
+  if (han > 0 && han >= words) {
+    return count(TRADITIONAL) > count(SIMPLIFIED) ? 'zh-TW' : 'zh-CN';
+  }
+
+  const scores = Object.entries(STOPWORDS).map(([code, pattern]) => [code, count(pattern)] as const);
+  const [best, score] = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+  return score > 0 ? best : 'en';
+};
+
+/**
+ * The document language to use: the explicit setting, or the detected one when set to auto.
+ */
+export const resolveLanguage = (config: AppConfig, text: string): LanguageProfile =>
+  getLanguage(!config.documentLanguage || config.documentLanguage === 'auto' ? detectLanguage(text) : config.documentLanguage);
+
+/**
+ * The language code of refined text: the translation target when one is set, otherwise the
+ * document language.
+ */
+export const outputLanguage = (config: AppConfig, text: string): string =>
+  config.translateTo || resolveLanguage(config, text).code;
+
+/**
+ * The language block inserted into prompts as {languageRules}. Planning only needs the analysis
+ * rule; step execution also either preserves the document language or translates into translateTo.
+ */
+export const buildLanguageRules = (language: LanguageProfile, mode: 'plan' | 'execute', translateTo?: string): string => {
+  const rules = [language.analysisRule];
+  if (mode === 'execute') {
+    rules.push(translateTo && translateTo !== language.code ? getLanguage(translateTo).translateRule : language.preserveRule);
+  }
+  return `【语言要求 / Language】\n${rules.map(r => `- ${r}`).join('\n')}`;
+};
@@ -0,0 +1,230 @@
+import {
+  MathComponent,
+  MathRun,
+  MathFraction,
+  MathRadical,
+  MathSum,
+  MathIntegral,
+  MathSuperScript,
+  MathSubScript,
+  MathSubSuperScript,
+  MathRoundBrackets,
+  MathSquareBrackets,
+  MathCurlyBrackets,
+  MathAngledBrackets
+} from 'docx';
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  cdot: '·', times: '×', div: '÷', pm: '±', mp: '∓', ast: '∗', circ: '∘', bullet: '•',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼',
+  simeq: '≃', propto: '∝', ll: '≪', gg: '≫',
+  in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇', cup: '∪', cap: '∩',
+  emptyset: '∅', forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔',
+  Leftrightarrow: '⇔', mapsto: '↦', iff: '⟺', implies: '⟹',
+  infty: '∞', partial: '∂', nabla: '∇', hbar: 'ℏ', ell: 'ℓ', degree: '°', prime: '′',
+  ldots: '…', cdots: '⋯', dots: '…', vdots: '⋮', ddots: '⋱',
+  prod: '∏', coprod: '∐', oint: '∮', langle: '⟨', rangle: '⟩', mid: '|', vert: '|', Vert: '‖',
+  lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+  quad: ' ', qquad: '  '
+};
+
+// Rendered upright as their own name
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'deg', 'gcd', 'arg', 'Pr'
+]);
+
+// Commands whose single argument is kept and whose styling Word equations cannot express here
+const PASS_THROUGH = new Set(['mathbf', 'mathit', 'mathcal', 'mathbb', 'mathsf', 'boldsymbol', 'bm', 'vec', 'hat', 'bar', 'overline', 'underline', 'tilde', 'dot']);
+
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'operatorname', 'textbf', 'textit']);
+
+// Spacing commands, rendered as a thin space or dropped
+const SPACES: Record<string, string> = { ',': ' ', ';': ' ', ':': ' ', '!': '', ' ': ' ' };
+
+type Piece = { text: string } | { component: MathComponent };
+
+/**
+ * Converts a LaTeX formula into Word equation (OMML) components. Fractions, roots, scripts, sums,
+ * integrals, \left…\right brackets, Greek letters and common operators are mapped structurally;
+ * anything else is kept as literal text so nothing is lost.
+ */
+export const latexToMath = (latex: string): MathComponent[] => {
+  const tokens = latex.match(/\\[a-zA-Z]+|\\.|[^\s\\]|\s+/g) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const skipSpace = () => {
+    while (pos < tokens.length && /^\s+$/.test(tokens[pos])) pos++;
+  };
+
+  // Raw source of a {…} group, used for \text and \begin{env}
+  const readRawGroup = (): string => {
+    skipSpace();
+    if (peek() !== '{') return tokens[pos++] || '';
+    pos++;
+    let depth = 1;
+    let raw = '';
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token === '{') depth++;
+      if (token === '}' && --depth === 0) break;
+      raw += token;
+    }
+    return raw;
+  };
+
+  const parseArgument = (): MathComponent[] => {
+    skipSpace();
+    if (peek() === '{') {
+      pos++;
+      return parseGroup('}');
+    }
+    const atom = parseAtom();
+    if (!atom) return [];
+    return toComponents(Array.isArray(atom) ? atom : [atom]);
+  };
+
+  const parseDelimiter = (): string => {
+    skipSpace();
+    const token = tokens[pos++] || '';
+    if (token === '.') return '';
+    if (token.startsWith('\\')) return SYMBOLS[token.slice(1)] ?? token.slice(1);
+    return token;
+  };
+
+  const wrapBrackets = (open: string, close: string, children: MathComponent[]): Piece[] => {
+    if (open === '(' && close === ')') return [{ component: new MathRoundBrackets({ children }) }];
+    if (open === '[' && close === ']') return [{ component: new MathSquareBrackets({ children }) }];
+    if (open === '{' && close === '}') return [{ component: new MathCurlyBrackets({ children }) }];
+    if (open === '⟨' && close === '⟩') return [{ component: new MathAngledBrackets({ children }) }];
+    return [{ text: open }, ...children.map(component => ({ component })), { text: close }];
+  };
+
+  const parseAtom = (): Piece | Piece[] | null => {
+    const token = tokens[pos++];
+    if (token === undefined) return null;
+    if (/^\s+$/.test(token)) return [];
+    if (token === '{') return parseGroup('}').map(component => ({ component }));
+    if (token === '&') return { text: ' ' };
+    if (!token.startsWith('\\')) return { text: token };
+
+    const name = token.slice(1);
+    if (name === '\\') return { text: ' ' };
+    if (name in SPACES) return { text: SPACES[name] };
+    if (name === '{' || name === '}' || name === '%' || name === '$' || name === '#' || name === '_') return { text: name };
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      const numerator = parseArgument();
+      const denominator = parseArgument();
+      return { component: new MathFraction({ numerator, denominator }) };
+    }
+    if (name === 'sqrt') {
+      skipSpace();
+      let degree: MathComponent[] | undefined;
+      if (peek() === '[') {
+        pos++;
+        degree = parseGroup(']');
+      }
+      return { component: new MathRadical({ children: parseArgument(), degree }) };
+    }
+    if (name === 'left') {
+      const open = parseDelimiter();
+      const children = parseGroup('\\right');
+      const close = parseDelimiter();
+      return wrapBrackets(open, close, children);
+    }
+    if (name === 'right') return [];
+    if (name === 'begin' || name === 'end') {
+      readRawGroup();
+      return [];
+    }
+    if (TEXT_COMMANDS.has(name)) return { text: readRawGroup() };
+    if (PASS_THROUGH.has(name)) return parseArgument().map(component => ({ component }));
+    if (FUNCTIONS.has(name)) return { text: name };
+    if (name in SYMBOLS) return { text: SYMBOLS[name] };
+    if (name === 'sum' || name === 'int') return []; // Built in parseSequence once the scripts are known
+    return { text: token };
+  };
+
+  const toComponents = (pieces: Piece[]): MathComponent[] => {
+    const result: MathComponent[] = [];
+    let pending = '';
+    for (const piece of pieces) {
+      if ('text' in piece) {
+        pending += piece.text;
+        continue;
+      }
+      if (pending) result.push(new MathRun(pending));
+      pending = '';
+      result.push(piece.component);
+    }
+    if (pending) result.push(new MathRun(pending));
+    return result;
+  };
+
+  // Parses until the closing token (left unconsumed) or the end of input
+  const parseSequence = (close?: string): MathComponent[] => {
+    const pieces: Piece[] = [];
+    while (pos < tokens.length && tokens[pos] !== close) {
+      const operator = tokens[pos] === '\\sum' ? 'sum' : tokens[pos] === '\\int' ? 'int' : null;
+      const atom = parseAtom();
+      if (atom === null) break;
+      const atoms = Array.isArray(atom) ? atom : [atom];
+
+      let subScript: MathComponent[] | undefined;
+      let superScript: MathComponent[] | undefined;
+      skipSpace();
+      while (peek() === '_' || peek() === '^') {
+        const which = tokens[pos++];
+        if (which === '_') subScript = parseArgument();
+        else superScript = parseArgument();
+        skipSpace();
+      }
+
+      if (operator) {
+        // The summand/integrand is the rest of the current group
+        const options = { children: parseSequence(close), subScript, superScript };
+        pieces.push({ component: operator === 'sum' ? new MathSum(options) : new MathIntegral(options) });
+        continue;
+      }
+
+      if (!subScript && !superScript) {
+        pieces.push(...atoms);
+        continue;
+      }
+      // Scripts attach to the last character or component of the atom
+      const last = atoms.pop();
+      pieces.push(...atoms);
+      let base: MathComponent[] = [];
+      if (last && 'text' in last) {
+        const chars = Array.from(last.text);
+        const tail = chars.pop() || '';
+        if (chars.length) pieces.push({ text: chars.join('') });
+        base = [new MathRun(tail)];
+      } else if (last && 'component' in last) {
+        base = [last.component];
+      }
+      const component = subScript && superScript
+        ? new MathSubSuperScript({ children: base, subScript, superScript })
+        : subScript
+          ? new MathSubScript({ children: base, subScript })
+          : new MathSuperScript({ children: base, superScript: superScript! });
+      pieces.push({ component });
+    }
+    return toComponents(pieces);
+  };
+
+  const parseGroup = (close: string): MathComponent[] => {
+    const children = parseSequence(close);
+    if (peek() === close) pos++;
+    return children;
+  };
+
+  return parseSequence();
+};
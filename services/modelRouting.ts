@@ -0,0 +1,58 @@
+import { AppConfig, ModelOverride, ModelPhase } from "../types";
+import { getProvider } from "./providers";
+
+export const MODEL_PHASES: { id: ModelPhase; name: string; description: string }[] = [
+  { id: 'planning', name: '诊断与规划', description: '领域识别、差距分析与生成计划，适合强推理模型' },
+  { id: 'execution', name: '步骤执行', description: '逐步重写文档，常规步骤可用更快更便宜的模型' },
+  { id: 'critique', name: '评审与评分', description: '同行评审与版本质量评分' }
+];
+
+/**
+ * Layers an override onto the settings. Switching provider swaps in that provider's saved
+ * credentials and, without an explicit model, its first listed model.
+ */
+export const applyOverride = (config: AppConfig, override?: ModelOverride): AppConfig => {
+  if (!override) return config;
+  let next = config;
+  if (override.provider && override.provider !== config.provider) {
+    const definition = getProvider(override.provider);
+    const credentials = config.credentials?.[override.provider] || {};
+    const missing = definition.fields.find(f => f.required && !credentials[f.key]);
+    if (missing) {
+      throw new Error(`${definition.name} 的 ${missing.label} 未配置：请先在设置中切换到该服务商填写并保存。`);
+    }
+    next = {
+      ...config,
+      provider: override.provider,
+      apiKey: credentials.apiKey || '',
+      baseUrl: credentials.baseUrl,
+      model: definition.models[0]?.id || config.model
+    };
+  }
+  return {
+    ...next,
+    ...(override.model && { model: override.model }),
+    ...(override.temperature !== undefined && { temperature: override.temperature }),
+    ...(override.maxOutputTokens !== undefined && { maxOutputTokens: override.maxOutputTokens })
+  };
+};
+
+const phaseOverride = (config: AppConfig, phase: ModelPhase): ModelOverride | undefined =>
+  config.phases?.[phase] ?? (phase === 'critique' && config.critic?.model ? { model: config.critic.model } : undefined);
+
+/**
+ * The settings a request runs with: the phase default over the main settings, then the step's own override.
+ */
+export const resolveModelConfig = (config: AppConfig, phase: ModelPhase, stepOverride?: ModelOverride): AppConfig =>
+  applyOverride(applyOverride(config, phaseOverride(config, phase)), stepOverride);
+
+export const hasOverride = (override?: ModelOverride): override is ModelOverride =>
+  !!override && Object.values(override).some(v => v !== undefined && v !== '');
+
+export const describeOverride = (override: ModelOverride): string =>
+  [
+    override.provider && getProvider(override.provider).name,
+    override.model,
+    override.temperature !== undefined && `温度 ${override.temperature}`,
+    override.maxOutputTokens !== undefined && `输出上限 ${override.maxOutputTokens}`
+  ].filter(Boolean).join(' · ');
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewStep, StepStatus } from '../types';
+import { assignStepIds, moveStep, nextRunnableStep, removeStep, wouldCreateCycle } from './planService';
+
+const step = (id: string, status = StepStatus.PENDING, dependsOn?: string[]): ReviewStep =>
+  ({ id, name: id, description: '', reasoning: '', status, dependsOn });
+
+const generated = (id: string | undefined, dependsOn?: string[]) =>
+  ({ id: id as string, name: `step ${id}`, description: '', reasoning: '', dependsOn });
+
+describe('assignStepIds', () => {
+  it('gives every step its own id, even when the model repeats or omits them', () => {
+    const steps = assignStepIds([generated('1'), generated('1'), generated(undefined), generated(undefined)]);
+    expect(new Set(steps.map(s => s.id)).size).toBe(4);
+    expect(steps.every(s => s.status === StepStatus.PENDING)).toBe(true);
+  });
+
+  it('resolves dependencies against the first step with each model id', () => {
+    const steps = assignStepIds([generated('1'), generated('1', ['1']), generated('2', ['1', '1', '2', 'missing'])]);
+    expect(steps[1].dependsOn).toEqual([steps[0].id]);
+    expect(steps[2].dependsOn).toEqual([steps[0].id]);
+    expect(steps[0].dependsOn).toEqual([]);
+  });
+
+  it('does not reuse ids across plans', () => {
+    const first = assignStepIds([generated('1')]);
+    const second = assignStepIds([generated('1')]);
+    expect(first[0].id).not.toBe(second[0].id);
+  });
+});
+
+describe('nextRunnableStep', () => {
+  it('returns the first pending step whose dependencies are resolved', () => {
+    const steps = [step('a', StepStatus.FAILED), step('b', StepStatus.PENDING, ['a']), step('c', StepStatus.PENDING, ['x'])];
+    expect(nextRunnableStep(steps)?.id).toBe('c');
+  });
+
+  it('treats skipped dependencies as resolved and honours exclusions', () => {
+    const steps = [step('a', StepStatus.SKIPPED), step('b', StepStatus.PENDING, ['a']), step('c')];
+    expect(nextRunnableStep(steps)?.id).toBe('b');
+    expect(nextRunnableStep(steps, new Set(['b']))?.id).toBe('c');
+    expect(nextRunnableStep([step('a', StepStatus.COMPLETED)])).toBeUndefined();
+  });
+});
+
+describe('plan editing', () => {
+  it('detects transitive cycles', () => {
+    const steps = [step('a'), step('b', StepStatus.PENDING, ['a']), step('c', StepStatus.PENDING, ['b'])];
+    expect(wouldCreateCycle(steps, 'a', 'c')).toBe(true);
+    expect(wouldCreateCycle(steps, 'c', 'a')).toBe(false);
+  });
+
+  it('moves steps and drops removed ones from dependencies', () => {
+    const steps = [step('a'), step('b', StepStatus.PENDING, ['a']), step('c')];
+    expect(moveStep(steps, 'c', 0).map(s => s.id)).toEqual(['c', 'a', 'b']);
+    expect(removeStep(steps, 'a')).toEqual([step('b', StepStatus.PENDING, []), step('c')]);
+  });
+});
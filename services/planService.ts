@@ -0,0 +1,83 @@
+import { ReviewStep, StepStatus } from "../types";
+
+// A dependency in one of these states no longer holds its dependents back
+const RESOLVED = new Set([StepStatus.COMPLETED, StepStatus.SKIPPED]);
+
+/**
+ * The steps a step waits for that are not completed or skipped yet.
+ * Dependencies on steps that were deleted from the plan are ignored.
+ */
+export const blockingSteps = (step: ReviewStep, steps: ReviewStep[]): ReviewStep[] =>
+  (step.dependsOn || [])
+    .map(id => steps.find(s => s.id === id))
+    .filter((s): s is ReviewStep => !!s && !RESOLVED.has(s.status));
+
+export const isStepReady = (step: ReviewStep, steps: ReviewStep[]): boolean =>
+  step.status === StepStatus.PENDING && blockingSteps(step, steps).length === 0;
+
+/**
+ * The first step in plan order whose dependencies are all resolved, skipping the ids in `exclude`.
+ */
+export const nextRunnableStep = (steps: ReviewStep[], exclude: Set<string> = new Set()): ReviewStep | undefined =>
+  steps.find(s => !exclude.has(s.id) && isStepReady(s, steps));
+
+/**
+ * Whether making `stepId` depend on `dependencyId` would close a cycle,
+ * i.e. whether dependencyId already depends on stepId, directly or transitively.
+ */
+export const wouldCreateCycle = (steps: ReviewStep[], stepId: string, dependencyId: string): boolean => {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const visited = new Set<string>();
+  const stack = [dependencyId];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === stepId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(byId.get(id)?.dependsOn || []));
+  }
+  return false;
+};
+
+/**
+ * Turns the steps of a generated plan into pending plan steps. Model-provided ids repeat across
+ * iterations ("1", "step1"...) and sometimes within a plan, or are missing, so every step gets an id
+ * of its own; a dependency on a model id refers to the first step that has it. Unknown and self
+ * references are dropped rather than left to block the step forever.
+ */
+export const assignStepIds = (steps: Omit<ReviewStep, 'status'>[]): ReviewStep[] => {
+  const suffix = Math.random().toString(36).substr(2, 6);
+  const ids = steps.map((s, i) => `${s.id || 'step'}-${suffix}-${i + 1}`);
+  const byModelId = new Map<string, string>();
+  steps.forEach((s, i) => {
+    if (s.id && !byModelId.has(s.id)) byModelId.set(s.id, ids[i]);
+  });
+  return steps.map((s, i) => ({
+    ...s,
+    id: ids[i],
+    dependsOn: Array.from(new Set((s.dependsOn || [])
+      .map(id => byModelId.get(id))
+      .filter((id): id is string => !!id && id !== ids[i]))),
+    status: StepStatus.PENDING
+  }));
+};
+
+/**
+ * Moves a step to a new position in the plan. Dependencies are unaffected by the order.
+ */
+export const moveStep = (steps: ReviewStep[], stepId: string, toIndex: number): ReviewStep[] => {
+  const from = steps.findIndex(s => s.id === stepId);
+  if (from === -1) return steps;
+  const next = [...steps];
+  const [step] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, step);
+  return next;
+};
+
+/**
+ * Removes a step and drops it from the dependencies of the remaining steps.
+ */
+export const removeStep = (steps: ReviewStep[], stepId: string): ReviewStep[] =>
+  steps
+    .filter(s => s.id !== stepId)
+    .map(s => s.dependsOn?.includes(stepId) ? { ...s, dependsOn: s.dependsOn.filter(id => id !== stepId) } : s);
@@ -0,0 +1,125 @@
+import { Project, ProjectSummary, StepStatus, DocumentState, AgentPlan } from "../types";
+
+const DB_NAME = 'docurefine';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const LAST_PROJECT_KEY = 'docurefine_last_project';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the IndexedDB database holding projects.
+ */
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(`无法打开本地项目库: ${request.error?.message}`));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the project store and resolves with its result.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`本地项目库操作失败: ${request.error?.message}`));
+  });
+};
+
+const createProjectId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+/**
+ * Derives a project name from the first heading or first non-empty line of the document.
+ */
+export const deriveProjectName = (text: string): string => {
+  const heading = text.match(/^#{1,6}\s+(.+)$/m)?.[1];
+  const firstLine = text.split('\n').find(line => line.trim())?.trim() || '未命名项目';
+  const name = (heading || firstLine).replace(/[#*_`>]/g, '').trim();
+  return name.length > 40 ? `${name.slice(0, 40)}…` : name;
+};
+
+export const createProject = (docState: DocumentState, plan: AgentPlan | null): Project => {
+  const now = Date.now();
+  return {
+    id: createProjectId(),
+    name: deriveProjectName(docState.originalText),
+    createdAt: now,
+    updatedAt: now,
+    docState,
+    plan
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a project. Steps that were running when the page went away are returned as pending.
+ */
+export const getProject = async (id: string): Promise<Project | null> => {
+  const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+  if (!project) return null;
+  if (project.plan) {
+    project.plan = {
+      ...project.plan,
+      steps: project.plan.steps.map(s => s.status === StepStatus.IN_PROGRESS ? { ...s, status: StepStatus.PENDING } : s)
+    };
+  }
+  return project;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('readwrite', store => store.put({ ...project, updatedAt: Date.now() }));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    setLastProjectId(null);
+  }
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const source = await getProject(id);
+  if (!source) return null;
+  const now = Date.now();
+  const copy: Project = { ...source, id: createProjectId(), name: `${source.name} (副本)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, name });
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
@@ -0,0 +1,386 @@
+import { AppConfig, JsonSchema, PromptTemplate, PromptTemplateId, TemplatePack } from "../types";
+import { validateSchema } from "./schemas";
+
+/**
+ * Built-in prompts. The document (or section) text and the JSON format instructions are
+ * appended by the caller, so templates only carry the reviewing behaviour.
+ */
+export const DEFAULT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  plan: {
+    id: 'plan',
+    name: '诊断与规划',
+    description: '识别领域、构建专家身份、分析差距并制定优化步骤。',
+    version: 4,
+    system: "You are an autonomous meta-agent. Construct your own persona based on REAL WORLD roles. Maintain domain purity.",
+    body: `你是一个**自主认知的领域专家代理 (Autonomous Domain Expert Agent)**。
+你的任务不是作为AI来回答问题，而是根据文档内容，**动态重塑**你自己的身份，从而对文档进行专家级的深度评审。
+
+【核心原则 1：领域纯粹性 (Domain Purity)】
+**严禁跨界缝合**。你必须严格遵守文档所属领域的**原生本体论**和**话语体系**。
+- 命理学/玄学：使用“五行、八卦、气运、生克”，**严禁**使用“希尔伯特空间、量子纠缠、波函数坍缩”等科学术语强行解释。除非文档本身是科幻小说。
+- 文学艺术：使用“意象、修辞、美学、叙事结构”，**严禁**使用“NLP算法、特征向量、逻辑回归”等工程术语。
+- 现代科学/工程：严守实证主义和逻辑推导，**严禁**引入玄学、宗教或未经验证的伪科学概念。
+
+【核心原则 2：现实锚定 (Reality Anchoring)】
+**严禁捏造不存在的理论或专家头衔**。
+- 你的身份必须是现实世界中**真实存在**的职业或学术职位（如“资深结构工程师”、“比较文学教授”、“中医内科主任医师”）。
+- **绝对不要**创造“量子佛学研究员”、“赛博风水师”、“四维空间命理师”这种不存在的缝合怪身份。
+- 你引用的标准必须是该领域**公认**的行业标准或学术共识，不要臆造不存在的“XXX统一场理论”。
+
+【第一步：领域特征提取与身份构建】
+请分析输入文档，进行以下元认知决策：
+1. **核心领域识别**：这篇文档属于人类现存知识体系中的哪个具体节点？（精确到二级学科或具体工种）。
+2. **最高权威定义**：在该领域现实中，谁拥有最高话语权？定义一个**真实存在的**角色头衔（Target Persona）。
+3. **价值公理确定**：该领域的核心价值是什么？（如：法律追求严谨，文学追求共情，工程追求可行性）。
+
+【第二步：专家级差距分析】
+以【Target Persona】的身份审视文档：
+- 按照该领域**真实的**专业标准，文档缺了什么？
+- 指出具体的逻辑漏洞、数据缺失或理论深度不足。不要泛泛而谈。
+
+【第三步：规划评审路径】
+制定优化步骤，将文档提升至该领域的真实专业水平。
+- 步骤必须是**业务深度**的扩展。
+- 每一个步骤都必须直接增加文档的**含金量**（理论深度、数据精度、逻辑闭环、经典引证）。
+- 若某步骤必须建立在其他步骤的成果之上，在 dependsOn 中列出那些步骤的 id；彼此独立的步骤不要添加依赖，以便按任意顺序执行。
+
+【第四步：制定评分量规 (rubric)】
+为该领域定义 3–6 个可量化的质量维度（例如严谨性、完整性、证据、结构），每个维度按 1–10 分评分，并写明判定标准（约 3 分、6 分、9 分的文档分别是什么样）。
+文档的每个版本都将按此量规评分，用来衡量每个步骤是否真正提升了质量，因此标准必须具体、可区分，且不能因篇幅增加而自动得分。
+
+{languageRules}
+
+请以 JSON 格式返回。`
+  },
+  execute: {
+    id: 'execute',
+    name: '执行优化步骤',
+    description: '以专家身份执行单个步骤并重写文档。',
+    version: 2,
+    system: "You are the {persona}. Maintain strict domain purity and reality.",
+    body: `【身份激活程序】
+系统检测到当前文档属于 **{category}** 领域。
+你已加载身份：**{persona}**。
+
+【执行任务】
+步骤名称：{step.name}
+具体指令：{step.description}
+目标标准：{standard}
+{sectionContext}
+
+【输出原则：真实性与纯粹性】
+1. **严禁臆造**：你所补充的理论、数据、引用或案例，必须是**现实世界中真实存在的**。不要捏造虚假的论文、不存在的法律条文或虚构的历史事件。
+2. **话语体系隔离**：彻底清洗语言风格。
+   - 如果是人文学科，杜绝理科味；
+   - 如果是玄学，杜绝科学味（严禁出现“量子纠缠”等词）；
+   - 如果是科学，杜绝玄学味。
+   - **严禁**出现“用量子力学解释八字”这种伪科学缝合。
+3. **深度注入**：使用该领域**公认**的高级概念和分析框架进行重写。
+   - 不要在原有内容上修修补补。你需要利用你的专业知识，向文档中注入该领域特有的核心论据、公式推导、判例、代码实现或技术细节。
+4. **去通用化**：删掉所有正确的废话。如果一句话放进任何行业的文档都通顺，那这句话就是垃圾，删掉它。
+5. **融合重写**：输出的内容应该是经过你（{persona}）润色后的**完整文档正文**。
+
+{languageRules}
+
+请返回 JSON，包含 revisedText (重写后的完整专业文档) 和 diffSummary (你作为专家具体增加了哪些硬核内容)。`
+  },
+  sectionContext: {
+    id: 'sectionContext',
+    name: '分段处理上下文',
+    description: '长文档逐段执行时插入到执行模板的 {sectionContext} 处。',
+    version: 1,
+    body: `【分段处理上下文】
+文档过长，正在逐段处理。当前为{sectionLabel}。
+全文大纲：
+{outline}
+上一部分（已修订）结尾：
+{previousExcerpt}
+上一部分的修改摘要：{previousSummary}
+下一部分开头：
+{nextExcerpt}
+要求：revisedText 只包含当前部分重写后的内容，并与上下文自然衔接；不要重复或改写其他部分，不要输出全文。`
+  },
+  condense: {
+    id: 'condense',
+    name: '长文档分段摘要',
+    description: '规划前对超长文档逐段生成浓缩摘要（map 阶段）。',
+    version: 1,
+    body: `以下是一篇长文档的第 {sectionNumber}/{sectionCount} 部分。请为后续的专家评审撰写该部分的浓缩摘要：
+- 保留原有的标题层级与论证结构；
+- 保留关键论点、数据、公式、引用与结论；
+- 如实记录明显的逻辑漏洞、缺失或薄弱之处；
+- 不要评价、不要补充原文没有的内容。
+摘要使用与原文相同的语言。`
+  },
+  repair: {
+    id: 'repair',
+    name: 'JSON 格式修正',
+    description: '模型输出无法通过校验时，追加在原始任务之后重新请求。',
+    version: 1,
+    body: `【格式修正】
+你上一次的输出未能通过 JSON 校验，问题如下：
+{errors}
+请根据原始任务重新输出**完整且合法**的 JSON：补全缺失字段、转义字符串中的引号与换行，不要输出 JSON 以外的任何内容。
+
+--- PREVIOUS OUTPUT ---
+{previousOutput}
+--- END PREVIOUS OUTPUT ---`
+  },
+  critic: {
+    id: 'critic',
+    name: '同行评审（Critic）',
+    description: '每个步骤完成后审核修订是否达成指令、是否存在退化。修订前后的对比由系统追加在后面。',
+    version: 1,
+    system: "You are a strict peer reviewer in the field of {category}. You judge revisions; you never rewrite them.",
+    body: `【审核任务】
+你是 **{persona}** 的同行评审者，请审核下面这次修订是否合格。
+
+步骤名称：{step.name}
+步骤指令：{step.description}
+领域专业标准：{standard}
+差距分析指出的缺失：{missingContent}
+修订者自述的修改：{diffSummary}
+
+【审核标准】
+1. 完成度：修订是否切实执行了步骤指令，并弥补了差距分析中与本步骤相关的缺失？
+2. 内容保留：是否删除或丢失了原文中有价值的内容（论点、数据、公式、引用、章节）？指令未要求的删减视为退化。
+3. 结构完整：标题层级、列表、表格、公式与代码块是否完整，Markdown 是否被破坏？
+4. 领域纯粹性与真实性：是否引入跨领域缝合的术语、臆造的理论、虚构的文献或数据？
+只有完成了指令且不存在上述退化时才可通过（approved 为 true）。措辞上的小问题不构成驳回理由。
+
+{languageRules}
+
+请返回 JSON：reasons（判定理由）、regressions（发现的退化，没有则为空数组）、approved（是否通过）。`
+  },
+  revise: {
+    id: 'revise',
+    name: '按评审意见重做',
+    description: '修订被 Critic 驳回后，追加在执行模板之后重新执行该步骤。',
+    version: 1,
+    body: `【同行评审意见】
+你上一次的修订未通过同行评审，问题如下：
+{critique}
+请在完成原始任务的同时逐条解决以上问题（尤其要恢复被删除的有效内容），重新输出完整 JSON。`
+  },
+  score: {
+    id: 'score',
+    name: '质量评分',
+    description: '按规划时确定的量规为文档的每个版本打分。文档正文由系统追加在后面。',
+    version: 1,
+    system: "You are the {persona}. You grade documents strictly against the given rubric.",
+    body: `【质量评分】
+你是 **{persona}**（{category} 领域）。请严格按照下面的评分量规，为这份文档逐维度打分（1–10 的整数）。
+
+评分量规：
+{rubric}
+
+要求：
+- 只依据量规中的判定标准评分，篇幅变长本身不加分；空话、堆砌和与领域无关的内容应当扣分。
+- 每个维度都要评分，dimensionId 使用量规中给出的 id，并附一句简短理由。
+
+{languageRules}
+
+请返回 JSON：scores 数组，每项包含 dimensionId、rationale、score。`
+  },
+  merge: {
+    id: 'merge',
+    name: '合并候选修订',
+    description: '多候选执行时，把用户选中的几份候选修订合并为一份。原文与各候选由系统追加在后面。',
+    version: 1,
+    system: "You are the {persona}. Maintain strict domain purity and reality.",
+    body: `【合并候选修订】
+你是 **{persona}**（{category} 领域）。针对同一个步骤，系统从同一份原文生成了 {candidateCount} 份候选修订，请将它们合并为一份最佳修订。
+
+步骤名称：{step.name}
+具体指令：{step.description}
+各候选的修改摘要：
+{candidateSummaries}
+
+【合并原则】
+1. 以最好地完成步骤指令的候选为骨架，吸收其他候选中独有且有价值的补充（论据、数据、公式、引用、案例）。
+2. 不得丢失原文或任一候选中有价值的内容；同一内容只保留表述最好的一处，不要重复堆砌。
+3. 候选之间相互矛盾时，采用符合该领域公认事实的说法，不得臆造。
+4. 保持原文的标题层级与 Markdown 结构，输出完整的文档正文。
+
+{languageRules}
+
+请返回 JSON，包含 revisedText (合并后的完整文档) 和 diffSummary (相对原文的修改，并说明分别采纳了哪些候选的内容)。`
+  },
+  comment: {
+    id: 'comment',
+    name: '批注评审',
+    description: '批注模式下执行步骤：不重写文档，而是返回锚定到原文片段的审稿批注。文档正文由系统追加在后面。',
+    version: 1,
+    system: "You are the {persona}. You review documents and write comments; you never rewrite them.",
+    body: `【批注评审】
+你是 **{persona}**（{category} 领域）。作者希望保留对文字的主导权，因此本步骤**不重写文档**，而是以审稿批注的形式指出问题。
+
+步骤名称：{step.name}
+具体指令：{step.description}
+目标标准：{standard}
+{sectionNote}
+
+【批注要求】
+1. 每条批注针对一处具体文本：quote 必须逐字摘自原文（不改动任何字符、标点与空白），长度以能唯一定位为宜（一般 10–80 字），不要跨越段落。
+2. severity 取值：critical（事实错误、逻辑断裂、违背领域规范）、major（重要缺失或论证薄弱）、minor（表述不精确、术语不规范）、suggestion（可选的改进）。
+3. issue 用一两句话说明问题及依据；依据必须是现实中真实存在的理论、规范或文献，不得臆造。
+4. 能就地修改时，在 suggestion 中给出替换 quote 的完整文字；需要大段补充时 suggestion 留空，并在 issue 中说明应补充什么、补在哪里。
+5. 只提出与本步骤指令相关的批注，宁缺毋滥。
+
+{languageRules}
+
+请返回 JSON：summary（本步骤的评审结论）与 comments 数组（每项包含 quote、severity、issue、suggestion）。`
+  }
+};
+
+export const TEMPLATE_IDS = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateId[];
+
+/**
+ * Variables each template may reference, with sample values for the editor preview.
+ */
+export const TEMPLATE_VARIABLES: Record<PromptTemplateId, { name: string; description: string; sample: string }[]> = {
+  plan: [
+    { name: 'languageRules', description: '文档语言对应的输出语言要求', sample: '【语言要求 / Language】\n- Write every analysis field, step name and description, and diffSummary in English.' }
+  ],
+  execute: [
+    { name: 'category', description: '识别到的领域', sample: '结构工程' },
+    { name: 'persona', description: '专家身份', sample: '资深结构工程师' },
+    { name: 'standard', description: '领域专业标准', sample: 'GB 50010 混凝土结构设计规范' },
+    { name: 'step.name', description: '步骤名称', sample: '补充荷载组合计算' },
+    { name: 'step.description', description: '步骤指令', sample: '按规范列出基本组合与偶然组合，并给出计算过程。' },
+    { name: 'sectionContext', description: '分段上下文（仅长文档分段执行时非空）', sample: '' },
+    { name: 'languageRules', description: '输出语言要求（保持原文语言或翻译为目标语言）', sample: '【语言要求 / Language】\n- 分析结果（analysis 各字段、步骤名称与描述）及 diffSummary 一律使用简体中文。\n- revisedText 必须保持简体中文，不得整体或局部翻译为其他语言（专有名词、术语原文与引文除外）。' }
+  ],
+  sectionContext: [
+    { name: 'sectionLabel', description: '当前分段，如“第 2/5 部分（标题）”', sample: '第 2/5 部分（荷载取值）' },
+    { name: 'outline', description: '全文标题大纲', sample: '- 工程概况\n- 荷载取值\n- 构件验算' },
+    { name: 'previousExcerpt', description: '上一部分修订后的结尾', sample: '…本工程设计使用年限为 50 年。' },
+    { name: 'previousSummary', description: '上一部分的修改摘要', sample: '补充了设计使用年限与安全等级。' },
+    { name: 'nextExcerpt', description: '下一部分的开头', sample: '## 构件验算\n梁截面按…' }
+  ],
+  condense: [
+    { name: 'sectionNumber', description: '当前分段序号', sample: '2' },
+    { name: 'sectionCount', description: '分段总数', sample: '5' }
+  ],
+  repair: [
+    { name: 'errors', description: '校验错误列表', sample: '- $.diffSummary: missing required field' },
+    { name: 'previousOutput', description: '上一次的原始输出', sample: '{"revisedText": "…"' }
+  ],
+  critic: [
+    { name: 'category', description: '识别到的领域', sample: '结构工程' },
+    { name: 'persona', description: '专家身份', sample: '资深结构工程师' },
+    { name: 'standard', description: '领域专业标准', sample: 'GB 50010 混凝土结构设计规范' },
+    { name: 'missingContent', description: '差距分析指出的缺失', sample: '缺少荷载组合与承载力验算过程。' },
+    { name: 'step.name', description: '步骤名称', sample: '补充荷载组合计算' },
+    { name: 'step.description', description: '步骤指令', sample: '按规范列出基本组合与偶然组合，并给出计算过程。' },
+    { name: 'diffSummary', description: '修订者自述的修改', sample: '新增了基本组合与偶然组合的计算表。' },
+    { name: 'languageRules', description: '判定理由的输出语言要求', sample: '【语言要求 / Language】\n- 分析结果（analysis 各字段、步骤名称与描述）及 diffSummary 一律使用简体中文。' }
+  ],
+  revise: [
+    { name: 'critique', description: 'Critic 给出的驳回理由与退化问题', sample: '- [退化] 删除了原文第 3 节的试验数据\n- 未给出偶然组合的计算过程' }
+  ],
+  score: [
+    { name: 'category', description: '识别到的领域', sample: '结构工程' },
+    { name: 'persona', description: '专家身份', sample: '资深结构工程师' },
+    { name: 'rubric', description: '评分量规（每个维度的 id、名称与判定标准）', sample: '- [rigor] 计算严谨性：3 分仅有结论；6 分有主要计算过程；9 分计算完整且引用规范条文。' },
+    { name: 'languageRules', description: '评分理由的输出语言要求', sample: '【语言要求 / Language】\n- 分析结果（analysis 各字段、步骤名称与描述）及 diffSummary 一律使用简体中文。' }
+  ],
+  merge: [
+    { name: 'category', description: '识别到的领域', sample: '结构工程' },
+    { name: 'persona', description: '专家身份', sample: '资深结构工程师' },
+    { name: 'candidateCount', description: '参与合并的候选数量', sample: '2' },
+    { name: 'step.name', description: '步骤名称', sample: '补充荷载组合计算' },
+    { name: 'step.description', description: '步骤指令', sample: '按规范列出基本组合与偶然组合，并给出计算过程。' },
+    { name: 'candidateSummaries', description: '各候选的修改摘要', sample: '- 候选 1：新增了基本组合的计算表。\n- 候选 2：补充了偶然组合并引用了规范条文。' },
+    { name: 'languageRules', description: '输出语言要求（保持原文语言或翻译为目标语言）', sample: '【语言要求 / Language】\n- revisedText 必须保持简体中文，不得整体或局部翻译为其他语言（专有名词、术语原文与引文除外）。' }
+  ],
+  comment: [
+    { name: 'category', description: '识别到的领域', sample: '结构工程' },
+    { name: 'persona', description: '专家身份', sample: '资深结构工程师' },
+    { name: 'standard', description: '领域专业标准', sample: 'GB 50010 混凝土结构设计规范' },
+    { name: 'step.name', description: '步骤名称', sample: '补充荷载组合计算' },
+    { name: 'step.description', description: '步骤指令', sample: '按规范列出基本组合与偶然组合，并给出计算过程。' },
+    { name: 'sectionNote', description: '长文档分段评审时的当前部分说明，否则为空', sample: '文档较长，正在分段评审，当前为第 2/5 部分（荷载计算）；只针对这一部分提出批注。' },
+    { name: 'languageRules', description: '批注的输出语言要求', sample: '【语言要求 / Language】\n- 分析结果（analysis 各字段、步骤名称与描述）及 diffSummary 一律使用简体中文。' }
+  ]
+};
+
+/**
+ * Returns the user's version of a template, or the built-in one.
+ */
+export const getTemplate = (config: AppConfig, id: PromptTemplateId): PromptTemplate =>
+  config.templates?.[id] ?? DEFAULT_TEMPLATES[id];
+
+/**
+ * Substitutes {name} and {dotted.name} placeholders. Unknown placeholders are left as written.
+ */
+export const fillTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(/\{([A-Za-z][\w.]*)\}/g, (match, name) => variables[name] ?? match);
+
+export const renderTemplate = (template: PromptTemplate, variables: Record<string, string>) => ({
+  systemInstruction: template.system ? fillTemplate(template.system, variables) : undefined,
+  prompt: fillTemplate(template.body, variables)
+});
+
+export const sampleVariables = (id: PromptTemplateId): Record<string, string> =>
+  Object.fromEntries(TEMPLATE_VARIABLES[id].map(v => [v.name, v.sample]));
+
+const TEMPLATE_PACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string' },
+    name: { type: 'string' },
+    templates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          version: { type: 'integer' },
+          system: { type: 'string' },
+          body: { type: 'string' }
+        },
+        required: ['id', 'version', 'body']
+      }
+    }
+  },
+  required: ['format', 'name', 'templates']
+};
+
+const PACK_FORMAT = 'docrefine-template-pack';
+
+export const exportTemplatePack = (name: string, templates: Partial<Record<PromptTemplateId, PromptTemplate>>): string => {
+  const pack: TemplatePack = {
+    format: PACK_FORMAT,
+    name,
+    exportedAt: Date.now(),
+    templates: TEMPLATE_IDS.map(id => templates[id]).filter((t): t is PromptTemplate => !!t)
+  };
+  return JSON.stringify(pack, null, 2);
+};
+
+/**
+ * Parses an exported pack. Templates for unknown ids are skipped; fields the pack omits
+ * fall back to the built-in template.
+ */
+export const importTemplatePack = (json: string): { name: string; templates: Partial<Record<PromptTemplateId, PromptTemplate>> } => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('模板包不是有效的 JSON 文件。');
+  }
+  const errors = validateSchema(data, TEMPLATE_PACK_SCHEMA);
+  if (errors.length > 0 || data.format !== PACK_FORMAT) {
+    throw new Error(`无法识别的模板包格式${errors.length ? `：${errors[0]}` : ''}`);
+  }
+
+  const templates: Partial<Record<PromptTemplateId, PromptTemplate>> = {};
+  for (const t of data.templates) {
+    const base = DEFAULT_TEMPLATES[t.id as PromptTemplateId];
+    if (!base) continue;
+    templates[base.id] = { ...base, name: t.name || base.name, version: t.version, system: base.system && (t.system ?? base.system), body: t.body };
+  }
+  return { name: data.name, templates };
+};
@@ -0,0 +1,86 @@
+import { ProviderDefinition, TokenUsage, ANTHROPIC_MODELS } from "../../types";
+import { describeSchema } from "../schemas";
+import { postJson, readEventStream } from "./http";
+
+const MAX_OUTPUT_TOKENS = 16000;
+
+/**
+ * Native Anthropic Messages API.
+ */
+export const anthropicProvider: ProviderDefinition = {
+  id: 'anthropic',
+  name: 'Anthropic Claude',
+  fields: [
+    { key: 'apiKey', label: 'API Key', placeholder: 'sk-ant-...', secret: true, required: true },
+    {
+      key: 'baseUrl',
+      label: 'Base URL (选填)',
+      placeholder: 'https://api.anthropic.com',
+      help: '如果不填，默认为 https://api.anthropic.com。通过代理访问时请填写代理地址。'
+    }
+  ],
+  models: ANTHROPIC_MODELS,
+  allowCustomModel: true,
+
+  async generate(request, config) {
+    if (!config.apiKey) {
+      throw new Error("API Key 未配置，请在设置中添加。");
+    }
+    const baseUrl = config.baseUrl || 'https://api.anthropic.com';
+    const url = `${baseUrl.replace(/\/+$/, '')}/v1/messages`;
+
+    const messages: { role: 'user' | 'assistant'; content: string }[] = [{
+      role: 'user',
+      content: request.schema ? `${request.prompt}\n\n${describeSchema(request.schema)}` : request.prompt
+    }];
+    // Prefilling the assistant turn with "{" keeps the reply to a bare JSON object
+    const prefill = request.schema ? '{' : '';
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    const body = {
+      model: config.model,
+      max_tokens: config.maxOutputTokens || MAX_OUTPUT_TOKENS,
+      system: request.systemInstruction,
+      messages,
+      stream: !!request.onChunk,
+      // Anthropic accepts 0–1 only
+      ...(config.temperature !== undefined && { temperature: Math.min(config.temperature, 1) })
+    };
+    const headers = {
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true'
+    };
+
+    const response = await postJson('Anthropic', url, body, headers, request.signal);
+
+    let text = prefill;
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    if (request.onChunk) {
+      await readEventStream(response, event => {
+        if (event.type === 'message_start') {
+          usage.inputTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          text += event.delta.text;
+          request.onChunk!(text);
+        } else if (event.type === 'message_delta') {
+          usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error: ${event.error?.message}`);
+        }
+      });
+    } else {
+      const data = await response.json();
+      text += (data.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+      usage.inputTokens = data.usage?.input_tokens || 0;
+      usage.outputTokens = data.usage?.output_tokens || 0;
+    }
+
+    if (text === prefill) {
+      throw new Error("Anthropic API returned empty response.");
+    }
+    return { text, usage };
+  }
+};
@@ -0,0 +1,60 @@
+import { GoogleGenAI } from "@google/genai";
+import { ProviderDefinition, TokenUsage, AVAILABLE_MODELS } from "../../types";
+import { toGeminiSchema } from "../schemas";
+
+/**
+ * Creates a GoogleGenAI instance with the provided API key.
+ */
+const createAI = (apiKey: string) => {
+  if (!apiKey) {
+    throw new Error("API Key 未配置，请在设置中添加。");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const toUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage | undefined =>
+  metadata ? { inputTokens: metadata.promptTokenCount || 0, outputTokens: metadata.candidatesTokenCount || 0 } : undefined;
+
+export const geminiProvider: ProviderDefinition = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  fields: [
+    { key: 'apiKey', label: 'API Key', placeholder: 'Gemini API Key', secret: true, required: true }
+  ],
+  models: AVAILABLE_MODELS,
+  allowCustomModel: false,
+
+  async generate(request, config) {
+    const ai = createAI(config.apiKey);
+    const params = {
+      model: config.model,
+      contents: request.prompt,
+      config: {
+        abortSignal: request.signal,
+        systemInstruction: request.systemInstruction,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxOutputTokens,
+        ...(request.schema && {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema)
+        })
+      }
+    };
+
+    if (!request.onChunk) {
+      const response = await ai.models.generateContent(params);
+      return { text: response.text || '', usage: toUsage(response.usageMetadata) };
+    }
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    const stream = await ai.models.generateContentStream(params);
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      // Usage metadata is cumulative; the last chunk carries the totals
+      usage = toUsage(chunk.usageMetadata) || usage;
+      request.onChunk(text);
+    }
+    return { text, usage };
+  }
+};
@@ -0,0 +1,96 @@
+import { ProviderError, parseRetryAfter } from "../retryService";
+
+/**
+ * POSTs a JSON body and returns the response, turning HTTP and transport failures into ProviderErrors
+ * so the retry layer can classify them.
+ */
+export const postJson = async (
+  label: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    console.error(`${label} Call Failed:`, error);
+    throw new ProviderError(`Model request failed: ${error.message}`, { isNetworkError: true });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(`${label} API Error (${response.status}): ${errorText}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+    });
+  }
+  return response;
+};
+
+/**
+ * Reads a streamed response body line by line.
+ */
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new Error("API returned no stream body.");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new ProviderError(`Stream interrupted: ${error.message}`, { isNetworkError: true });
+    }
+    if (chunk.done) break;
+    buffer += decoder.decode(chunk.value, { stream: true });
+
+    // Keep the trailing partial line for the next read
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => onLine(line.trim()));
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+const tryParse = (payload: string): any => {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads a Server-Sent Events stream, passing each parsed `data:` payload to onEvent.
+ * Keep-alive comments and malformed events are skipped.
+ */
+export const readEventStream = (response: Response, onEvent: (data: any) => void): Promise<void> =>
+  readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    const data = tryParse(payload);
+    if (data !== undefined) onEvent(data);
+  });
+
+/**
+ * Reads a newline-delimited JSON stream (as used by Ollama).
+ */
+export const readJsonLines = (response: Response, onObject: (data: any) => void): Promise<void> =>
+  readLines(response, line => {
+    const data = line ? tryParse(line) : undefined;
+    if (data !== undefined) onObject(data);
+  });
@@ -0,0 +1,26 @@
+import { AppConfig, LLMProvider, ProviderDefinition } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { openaiProvider } from "./openaiProvider";
+import { anthropicProvider } from "./anthropicProvider";
+import { ollamaProvider } from "./ollamaProvider";
+
+/**
+ * All available model backends, in the order they are offered in settings.
+ */
+export const PROVIDERS: ProviderDefinition[] = [geminiProvider, openaiProvider, anthropicProvider, ollamaProvider];
+
+export const getProvider = (id: LLMProvider): ProviderDefinition => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`未知的模型服务商: ${id}`);
+  }
+  return provider;
+};
+
+/**
+ * Whether every required field of the selected provider is filled in.
+ */
+export const isProviderConfigured = (config: AppConfig): boolean => {
+  const provider = PROVIDERS.find(p => p.id === config.provider);
+  return !!provider && !!config.model && provider.fields.every(f => !f.required || !!config[f.key]);
+};
@@ -0,0 +1,76 @@
+import { ProviderDefinition, TokenUsage, OLLAMA_PRESETS } from "../../types";
+import { describeSchema } from "../schemas";
+import { postJson, readJsonLines } from "./http";
+
+const toUsage = (data: { prompt_eval_count?: number; eval_count?: number }): TokenUsage =>
+  ({ inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 });
+
+/**
+ * Local models served by Ollama. Nothing leaves the machine, and no API key is needed.
+ */
+export const ollamaProvider: ProviderDefinition = {
+  id: 'ollama',
+  name: 'Ollama (本地)',
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'Ollama 地址 (选填)',
+      placeholder: 'http://localhost:11434',
+      help: '如果不填，默认为 http://localhost:11434。浏览器访问需要设置 OLLAMA_ORIGINS 允许当前页面来源。'
+    }
+  ],
+  models: OLLAMA_PRESETS,
+  allowCustomModel: true,
+
+  async generate(request, config) {
+    const baseUrl = config.baseUrl || 'http://localhost:11434';
+    const url = `${baseUrl.replace(/\/+$/, '')}/api/chat`;
+
+    const messages = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({
+      role: 'user',
+      content: request.schema ? `${request.prompt}\n\n${describeSchema(request.schema)}` : request.prompt
+    });
+
+    const body = {
+      model: config.model,
+      messages,
+      stream: !!request.onChunk,
+      options: { temperature: config.temperature, num_predict: config.maxOutputTokens },
+      // Ollama enforces a JSON schema passed as the format
+      ...(request.schema && { format: request.schema })
+    };
+
+    const response = await postJson('Ollama', url, body, {}, request.signal);
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    if (request.onChunk) {
+      await readJsonLines(response, data => {
+        if (data.error) {
+          throw new Error(`Ollama stream error: ${data.error}`);
+        }
+        const delta = data.message?.content;
+        if (delta) {
+          text += delta;
+          request.onChunk!(text);
+        }
+        if (data.done) {
+          usage = toUsage(data);
+        }
+      });
+    } else {
+      const data = await response.json();
+      text = data.message?.content || '';
+      usage = toUsage(data);
+    }
+
+    if (!text) {
+      throw new Error("Ollama returned empty response.");
+    }
+    return { text, usage };
+  }
+};
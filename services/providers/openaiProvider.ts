@@ -0,0 +1,100 @@
+import { ProviderDefinition, TokenUsage, OPENAI_COMPATIBLE_PRESETS } from "../../types";
+import { describeSchema } from "../schemas";
+import { postJson, readEventStream } from "./http";
+
+/**
+ * DeepSeek R1 and its distills think before answering. They do not support response_format or
+ * sampling parameters, and return the reasoning separately or inline in <think> tags.
+ */
+const isReasoningModel = (model: string) => /deepseek-reasoner|deepseek-r1/i.test(model);
+
+// Drops complete <think> blocks and one still being streamed
+const stripThinking = (text: string) => text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trimStart();
+
+const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+
+/**
+ * OpenAI Chat Completions and compatible endpoints (DeepSeek, OneAPI, vLLM...).
+ */
+export const openaiProvider: ProviderDefinition = {
+  id: 'openai',
+  name: 'OpenAI 兼容',
+  fields: [
+    { key: 'apiKey', label: 'API Key', placeholder: 'sk-...', secret: true, required: true },
+    {
+      key: 'baseUrl',
+      label: 'Base URL (选填)',
+      placeholder: 'https://api.openai.com/v1',
+      help: '如果不填，默认为 https://api.openai.com/v1。使用 DeepSeek 等服务时请填写对应的 Endpoint。'
+    }
+  ],
+  models: OPENAI_COMPATIBLE_PRESETS,
+  allowCustomModel: true,
+
+  async generate(request, config) {
+    if (!config.apiKey) {
+      throw new Error("API Key 未配置，请在设置中添加。");
+    }
+    const baseUrl = config.baseUrl || 'https://api.openai.com/v1';
+    const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const messages = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({
+      role: 'user',
+      content: request.schema ? `${request.prompt}\n\n${describeSchema(request.schema)}` : request.prompt
+    });
+
+    const body: any = {
+      model: config.model,
+      messages,
+      stream: !!request.onChunk
+    };
+    const reasoning = isReasoningModel(config.model);
+    if (config.temperature !== undefined && !reasoning) {
+      body.temperature = config.temperature;
+    }
+    if (config.maxOutputTokens) {
+      body.max_tokens = config.maxOutputTokens;
+    }
+    if (request.onChunk) {
+      body.stream_options = { include_usage: true };
+    }
+    // Reasoning models get the JSON shape from the prompt only; the reply is repaired if needed
+    if (request.schema && !reasoning) {
+      body.response_format = { type: "json_object" };
+    }
+
+    const response = await postJson('OpenAI', url, body, { 'Authorization': `Bearer ${config.apiKey}` }, request.signal);
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    if (request.onChunk) {
+      await readEventStream(response, event => {
+        // reasoning_content deltas carry the chain of thought and are not part of the answer
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          request.onChunk!(reasoning ? stripThinking(text) : text);
+        }
+        // With include_usage the final event has empty choices and the totals
+        usage = toUsage(event.usage) || usage;
+      });
+    } else {
+      const data = await response.json();
+      text = data.choices?.[0]?.message?.content || '';
+      usage = toUsage(data.usage);
+    }
+    if (reasoning) {
+      text = stripThinking(text);
+    }
+
+    if (!text) {
+      throw new Error("OpenAI API returned empty response.");
+    }
+    return { text, usage };
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AppConfig } from '../types';
+import { ProviderError, parseRetryAfter, withRetry } from './retryService';
+
+const config = (maxDelayMs = 50): AppConfig => ({
+  apiKey: 'key',
+  provider: 'openai',
+  model: 'test',
+  baseUrl: `http://retry-test-${Math.random()}`,
+  retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs }
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    const inTenSeconds = new Date(Date.now() + 10000).toUTCString();
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThan(8000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:00 GMT')).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures and reports each attempt', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new ProviderError('busy', { status: 503 }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(config(), fn, { onRetry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, reason: 'busy' }));
+  });
+
+  it('does not retry client errors', async () => {
+    const fn = vi.fn().mockRejectedValue(new ProviderError('bad request', { status: 400 }));
+    await expect(withRetry(config(), fn)).rejects.toThrow('bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('honours a short Retry-After', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new ProviderError('slow down', { status: 429, retryAfterMs: 20 }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(config(), fn, { onRetry })).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 20 }));
+  });
+
+  it('fails instead of waiting out a Retry-After beyond the retry limit', async () => {
+    const fn = vi.fn().mockRejectedValue(new ProviderError('slow down', { status: 429, retryAfterMs: 3600000 }));
+    const onRetry = vi.fn();
+    const started = Date.now();
+    await expect(withRetry(config(), fn, { onRetry })).rejects.toThrow(/retry after 3600s/);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
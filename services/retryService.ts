@@ -0,0 +1,196 @@
+import { AppConfig, RateLimitPolicy, RetryInfo, RetryPolicy } from "../types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export const DEFAULT_RATE_LIMIT: RateLimitPolicy = {
+  maxConcurrent: 2,
+  requestsPerMinute: 0
+};
+
+/**
+ * Error raised by a provider call, carrying what the retry logic needs to decide.
+ */
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  isNetworkError: boolean;
+
+  constructor(message: string, details: { status?: number; retryAfterMs?: number; isNetworkError?: boolean } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.isNetworkError = details.isNetworkError ?? false;
+  }
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isRetryable = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof ProviderError && error.isNetworkError) return true;
+  // fetch reports connection failures as a TypeError
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return true;
+  // ProviderError and the Gemini SDK's ApiError both expose the HTTP status
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  return status === 408 || status === 429 || (status !== undefined && status >= 500);
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Resolves after the given delay, or rejects as soon as the signal aborts.
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Exponential backoff with equal jitter; a server-provided Retry-After takes precedence. A
+ * Retry-After beyond maxDelayMs returns undefined: the call gives up rather than stall that long.
+ */
+const computeDelay = (attempt: number, error: any, policy: RetryPolicy): number | undefined => {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+  const exp = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+};
+
+/**
+ * Limits concurrent requests and, optionally, requests per minute for one provider endpoint.
+ */
+class RateLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private startTimes: number[] = [];
+
+  constructor(public policy: RateLimitPolicy) {}
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (this.active >= Math.max(1, this.policy.maxConcurrent)) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.queue = this.queue.filter(fn => fn !== grant);
+          reject(abortError());
+        };
+        const grant = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        this.queue.push(grant);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    } else {
+      this.active++;
+    }
+
+    // Sliding one-minute window for the requests-per-minute cap
+    const rpm = this.policy.requestsPerMinute;
+    if (rpm > 0) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter(t => now - t < 60000);
+      if (this.startTimes.length >= rpm) {
+        const waitMs = 60000 - (now - this.startTimes[0]);
+        try {
+          await sleep(waitMs, signal);
+        } catch (err) {
+          this.release();
+          throw err;
+        }
+      }
+      this.startTimes.push(Date.now());
+    }
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+const limiterFor = (config: AppConfig): RateLimiter => {
+  const key = `${config.provider}|${config.baseUrl || ''}`;
+  const policy = config.rateLimit || DEFAULT_RATE_LIMIT;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(policy);
+    limiters.set(key, limiter);
+  }
+  limiter.policy = policy;
+  return limiter;
+};
+
+/**
+ * Runs a provider call under the configured rate limit, retrying transient failures
+ * (429, 408, 5xx, network errors) with backoff. Each attempt is reported through onRetry.
+ * A Retry-After longer than the policy's maxDelayMs fails the call instead of waiting it out.
+ */
+export const withRetry = async <T>(
+  config: AppConfig,
+  fn: () => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<T> => {
+  const policy = config.retry || DEFAULT_RETRY_POLICY;
+  const limiter = limiterFor(config);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await limiter.run(fn, options.signal);
+    } catch (error: any) {
+      if (options.signal?.aborted || !isRetryable(error) || attempt >= policy.maxRetries) {
+        throw error;
+      }
+      const delayMs = computeDelay(attempt, error, policy);
+      if (delayMs === undefined) {
+        throw new ProviderError(
+          `${error.message} (server asked to retry after ${Math.ceil(error.retryAfterMs / 1000)}s, over the ${Math.round(policy.maxDelayMs / 1000)}s retry limit)`,
+          { status: error.status, retryAfterMs: error.retryAfterMs }
+        );
+      }
+      options.onRetry?.({ attempt: attempt + 1, maxRetries: policy.maxRetries, delayMs, reason: error.message });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
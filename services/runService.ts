@@ -0,0 +1,108 @@
+import { AppConfig, RetryInfo, RunIterationReport, RunOptions, RunReport, RunStepReport, StepStatus, UsageRecord } from "../types";
+import { analyzeAndPlan, executeStep } from "./geminiService";
+import { nextRunnableStep } from "./planService";
+import { DEFAULT_CONTENT_GUARD, detectContentLoss, summarizeLosses } from "./contentGuard";
+import { estimateCost } from "./usageService";
+
+/**
+ * Refines a document without the UI, as auto-run does with review pauses off: plans it, runs every
+ * step whose dependencies are resolved, and repeats on the result for the requested number of rounds.
+ * A plan given in the options replaces the first round's planning. A failed step is recorded and
+ * its dependents are left pending; results the content guard blocks are not applied. The run never
+ * throws: a planning error, cancellation or the budget ends it early with the text refined so far
+ * and the reason in the report.
+ */
+export const refineDocument = async (
+  text: string,
+  config: AppConfig,
+  options: RunOptions = {}
+): Promise<{ text: string; report: RunReport }> => {
+  const { iterations = 1, budgetUsd, signal, onEvent } = options;
+  const guard = config.contentGuard || DEFAULT_CONTENT_GUARD;
+  const usage: UsageRecord[] = [];
+  const report: RunReport = {
+    startedAt: Date.now(),
+    finishedAt: 0,
+    provider: config.provider,
+    model: config.model,
+    inputChars: text.length,
+    outputChars: 0,
+    iterations: [],
+    usage,
+    estimatedCostUsd: 0
+  };
+
+  const requestOptions = (label: string) => ({
+    signal,
+    onRetry: (info: RetryInfo) => onEvent?.({ type: 'retry', info }),
+    onUsage: (record: UsageRecord) => { usage.push({ ...record, label }); }
+  });
+  const overBudget = () => budgetUsd !== undefined && estimateCost(usage, config.prices).cost >= budgetUsd;
+
+  let currentText = text;
+  try {
+    for (let iteration = 1; iteration <= iterations && !report.stoppedReason; iteration++) {
+      if (overBudget()) {
+        report.stoppedReason = 'budget';
+        break;
+      }
+      const plan = iteration === 1 && options.plan
+        ? { ...options.plan, steps: options.plan.steps.map(s => ({ ...s, status: StepStatus.PENDING, output: undefined, diffSummary: undefined })) }
+        : await analyzeAndPlan(currentText, config, requestOptions(iteration > 1 ? `文档分析（第 ${iteration} 轮）` : '文档分析'));
+      const entry: RunIterationReport = { iteration, analysis: plan.analysis, steps: [] };
+      report.iterations.push(entry);
+      onEvent?.({ type: 'plan', iteration, plan });
+
+      let steps = plan.steps;
+      for (let next = nextRunnableStep(steps); next; next = nextRunnableStep(steps)) {
+        const step = next;
+        if (overBudget()) {
+          report.stoppedReason = 'budget';
+          break;
+        }
+        onEvent?.({ type: 'step-start', iteration, step });
+
+        let outcome: RunStepReport;
+        try {
+          const result = await executeStep(currentText, step, plan.analysis, config, requestOptions(step.name));
+          const losses = guard.mode === 'off'
+            ? []
+            : detectContentLoss(currentText, result.revisedText, guard, { translated: !!config.translateTo });
+          const blocked = losses.length > 0 && guard.mode === 'block';
+          if (!blocked) currentText = result.revisedText;
+          outcome = {
+            id: step.id,
+            name: step.name,
+            status: blocked ? StepStatus.FAILED : StepStatus.COMPLETED,
+            diffSummary: result.diffSummary,
+            losses: losses.length ? losses : undefined,
+            critiques: result.critiques,
+            usage: result.usage,
+            error: blocked ? `内容保护已阻止提交：结果丢失了 ${summarizeLosses(losses)}` : undefined
+          };
+        } catch (err: any) {
+          if (signal?.aborted) throw err;
+          outcome = { id: step.id, name: step.name, status: StepStatus.FAILED, error: err.message || '步骤执行失败' };
+        }
+        steps = steps.map(s => s.id === step.id ? { ...s, status: outcome.status } : s);
+        entry.steps.push(outcome);
+        onEvent?.({ type: 'step-done', iteration, step: outcome });
+      }
+
+      // Steps held back by a failed dependency or the budget
+      steps
+        .filter(s => s.status === StepStatus.PENDING)
+        .forEach(s => entry.steps.push({ id: s.id, name: s.name, status: StepStatus.PENDING }));
+    }
+  } catch (err: any) {
+    report.stoppedReason = signal?.aborted ? 'cancelled' : 'error';
+    report.error = err.message;
+  }
+
+  report.finishedAt = Date.now();
+  report.outputChars = currentText.length;
+  const { cost, unpriced } = estimateCost(usage, config.prices);
+  report.estimatedCostUsd = cost;
+  report.unpriced = unpriced || undefined;
+  return { text: currentText, report };
+};
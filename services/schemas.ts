@@ -0,0 +1,229 @@
+import { Type, Schema } from "@google/genai";
+import { JsonSchema } from "../types";
+
+/**
+ * Response of analyzeAndPlan.
+ */
+export const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    analysis: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', description: "识别到的精确细分领域（必须是真实存在的学科）" },
+        assignedPersona: { type: 'string', description: "AI根据内容自主决定的专家身份头衔（必须是现实存在的职位，不得臆造）" },
+        currentLevel: { type: 'string' },
+        targetLevel: { type: 'string' },
+        summary: { type: 'string' },
+        gapAnalysis: {
+          type: 'object',
+          properties: {
+            professionalStandards: { type: 'string', description: "该领域的第一性原理标准" },
+            missingContent: { type: 'string', description: "专家视角下不可容忍的专业内容缺失（具体的领域逻辑、理论或数据）" }
+          },
+          required: ["professionalStandards", "missingContent"]
+        },
+        rubric: {
+          type: 'array',
+          description: "该领域专用的质量评分量规，3–6 个维度，每个维度 1–10 分",
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: "简短的英文标识，如 rigor" },
+              name: { type: 'string', description: "维度名称，如“论证严谨性”" },
+              criteria: { type: 'string', description: "评分标准：分别说明约 3 分、6 分、9 分的文档是什么样" }
+            },
+            required: ["id", "name", "criteria"]
+          },
+          minItems: 3
+        }
+      },
+      required: ["category", "assignedPersona", "currentLevel", "targetLevel", "summary", "gapAnalysis", "rubric"]
+    },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: "unique id" },
+          name: { type: 'string', description: "可执行的领域任务名称" },
+          description: { type: 'string', description: "详细的技术性指令" },
+          reasoning: { type: 'string' },
+          dependsOn: {
+            type: 'array',
+            items: { type: 'string' },
+            description: "必须先完成的前置步骤的 id；彼此独立的步骤留空"
+          }
+        },
+        required: ["id", "name", "description", "reasoning"]
+      },
+      minItems: 1
+    }
+  },
+  required: ["analysis", "steps"]
+};
+
+/**
+ * Response of executeStep. revisedText comes first so it can be previewed while streaming.
+ */
+export const STEP_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    revisedText: { type: 'string', description: "重写后的完整文档正文，体现领域深度、纯粹性与现实锚定" },
+    diffSummary: { type: 'string', description: "作为专家具体增加了哪些硬核内容" }
+  },
+  required: ["revisedText", "diffSummary"]
+};
+
+/**
+ * Response of a step in review-comments mode. Offsets are computed locally from the quotes.
+ */
+export const COMMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: "本步骤评审结论概述" },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          quote: { type: 'string', description: "逐字摘自原文的片段，用于定位批注" },
+          severity: { type: 'string', enum: ['critical', 'major', 'minor', 'suggestion'] },
+          issue: { type: 'string', description: "问题及依据" },
+          suggestion: { type: 'string', description: "替换 quote 的完整文字；无法就地修改时留空" }
+        },
+        required: ["quote", "severity", "issue"]
+      }
+    }
+  },
+  required: ["summary", "comments"]
+};
+
+/**
+ * Response of the critic pass. The verdict comes last so it follows from the stated reasons.
+ */
+export const CRITIC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    reasons: { type: 'array', items: { type: 'string' }, description: "判定理由，逐条列出", minItems: 1 },
+    regressions: { type: 'array', items: { type: 'string' }, description: "发现的退化：内容丢失、结构破坏、领域纯粹性或真实性问题；没有则为空数组" },
+    approved: { type: 'boolean', description: "修订是否合格" }
+  },
+  required: ["reasons", "regressions", "approved"]
+};
+
+/**
+ * Response of scoring a version against the rubric.
+ */
+export const SCORE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          dimensionId: { type: 'string', description: "量规维度的 id" },
+          rationale: { type: 'string', description: "一句话评分理由" },
+          score: { type: 'integer', description: "1–10 的整数" }
+        },
+        required: ["dimensionId", "rationale", "score"]
+      },
+      minItems: 1
+    }
+  },
+  required: ["scores"]
+};
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+/**
+ * Translates a schema into Gemini's responseSchema, pinning property order to declaration order.
+ */
+export const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = { type: GEMINI_TYPES[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.minItems !== undefined) result.minItems = String(schema.minItems);
+  if (schema.enum) {
+    result.format = 'enum';
+    result.enum = schema.enum;
+  }
+  return result;
+};
+
+/**
+ * Renders a schema as a JSON-shaped template, e.g. "name": "string (description)".
+ */
+const renderTemplate = (schema: JsonSchema, indent: string): string => {
+  const inner = `${indent}  `;
+  if (schema.type === 'object' && schema.properties) {
+    const lines = Object.entries(schema.properties).map(([key, value]) => `${inner}"${key}": ${renderTemplate(value, inner)}`);
+    return `{\n${lines.join(',\n')}\n${indent}}`;
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `[\n${inner}${renderTemplate(schema.items, inner)}\n${indent}]`;
+  }
+  const type = schema.enum ? schema.enum.join(' | ') : schema.type;
+  return `"${type}${schema.description ? ` (${schema.description})` : ''}"`;
+};
+
+/**
+ * Prompt instruction for providers without native schema support.
+ */
+export const describeSchema = (schema: JsonSchema): string =>
+  `Please strictly output JSON with the following structure, keys in this order:\n${renderTemplate(schema, '')}`;
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks a parsed response against a schema. Returns one message per problem, each prefixed
+ * with the JSON path (e.g. "$.steps[0].name"); an empty list means the value is valid.
+ * Properties not declared in the schema are allowed.
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  const actual = typeOf(value);
+  const matches = schema.type === 'integer'
+    ? Number.isInteger(value)
+    : actual === schema.type;
+  if (!matches) {
+    return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: missing required field`);
+    }
+    for (const [key, child] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) errors.push(...validateSchema(record[key], child, `${path}.${key}`));
+    }
+  } else if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+  } else if (schema.type === 'array') {
+    const list = value as unknown[];
+    if (schema.minItems !== undefined && list.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${list.length}`);
+    }
+    if (schema.items) {
+      list.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+  return errors;
+};
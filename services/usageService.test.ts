@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { AppConfig, UsageRecord } from '../types';
+import { estimateCost, unpricedModels } from './usageService';
+
+const config = (changes: Partial<AppConfig> = {}): AppConfig => ({ apiKey: 'k', provider: 'gemini', model: 'gemini-3-pro-preview', ...changes });
+
+const record = (model: string, provider: UsageRecord['provider'] = 'gemini'): UsageRecord =>
+  ({ provider, model, inputTokens: 1_000_000, outputTokens: 0, latencyMs: 0, calls: 1 });
+
+describe('estimateCost', () => {
+  it('flags models without a price instead of counting them as free', () => {
+    expect(estimateCost([record('gemini-3-pro-preview'), record('mystery')])).toEqual({ cost: 2, unpriced: true });
+    expect(estimateCost([record('mystery')], { mystery: { input: 1, output: 1 } })).toEqual({ cost: 1, unpriced: false });
+    expect(estimateCost([record('llama3', 'ollama')])).toEqual({ cost: 0, unpriced: false });
+  });
+});
+
+describe('unpricedModels', () => {
+  it('lists each unpriced model of the phases and step overrides once', () => {
+    const settings = config({ phases: { critique: { model: 'mystery' } } });
+    expect(unpricedModels(settings, ['planning', 'execution'])).toEqual([]);
+    expect(unpricedModels(settings, ['planning', 'critique'], [undefined, { model: 'mystery' }, { model: 'other' }]))
+      .toEqual(['mystery', 'other']);
+    expect(unpricedModels({ ...settings, prices: { mystery: { input: 1, output: 1 } } }, ['critique'])).toEqual([]);
+  });
+
+  it('skips overrides whose provider has no credentials', () => {
+    expect(unpricedModels(config(), ['execution'], [{ provider: 'openai', model: 'mystery' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { AppConfig, ModelOverride, ModelPhase, ModelPrice, RequestOptions, UsageRecord } from "../types";
+import { resolveModelConfig } from "./modelRouting";
+
+/**
+ * List prices in USD per million tokens. Models missing here (and not priced in settings)
+ * are reported as unpriced rather than free; local Ollama models always cost nothing.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash-latest': { input: 0.3, output: 2.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 }
+};
+
+export const getModelPrice = (record: Pick<UsageRecord, 'provider' | 'model'>, prices?: AppConfig['prices']): ModelPrice | undefined => {
+  if (record.provider === 'ollama') return { input: 0, output: 0 };
+  return prices?.[record.model] ?? DEFAULT_MODEL_PRICES[record.model];
+};
+
+/**
+ * Models that the given phases, and steps with their own overrides, would run on without a known price.
+ * Settings that cannot be resolved (missing credentials) are skipped; those requests fail anyway.
+ */
+export const unpricedModels = (config: AppConfig, phases: ModelPhase[], stepOverrides: (ModelOverride | undefined)[] = []): string[] => {
+  const models = new Set<string>();
+  const check = (phase: ModelPhase, override?: ModelOverride) => {
+    try {
+      const resolved = resolveModelConfig(config, phase, override);
+      if (!getModelPrice(resolved, config.prices)) models.add(resolved.model);
+    } catch {
+      // Unresolvable settings are reported when the request runs
+    }
+  };
+  phases.forEach(phase => check(phase));
+  stepOverrides.forEach(override => override && check('execution', override));
+  return [...models];
+};
+
+/**
+ * Adds a call's usage to a running total. The total keeps the first record's model and label.
+ */
+export const addUsage = (total: UsageRecord | undefined, usage: UsageRecord): UsageRecord => total ? {
+  ...total,
+  inputTokens: total.inputTokens + usage.inputTokens,
+  outputTokens: total.outputTokens + usage.outputTokens,
+  latencyMs: total.latencyMs + usage.latencyMs,
+  calls: total.calls + usage.calls,
+  estimated: total.estimated || usage.estimated
+} : { ...usage };
+
+/**
+ * Estimated cost in USD of a set of records; `unpriced` is set when some model has no known price.
+ */
+export const estimateCost = (records: UsageRecord[], prices?: AppConfig['prices']): { cost: number; unpriced: boolean } => {
+  let cost = 0;
+  let unpriced = false;
+  for (const record of records) {
+    const price = getModelPrice(record, prices);
+    if (!price) {
+      unpriced = true;
+      continue;
+    }
+    cost += (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+  }
+  return { cost, unpriced };
+};
+
+export const sumTokens = (records: UsageRecord[]) => records.reduce(
+  (sum, r) => ({ inputTokens: sum.inputTokens + r.inputTokens, outputTokens: sum.outputTokens + r.outputTokens }),
+  { inputTokens: 0, outputTokens: 0 }
+);
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * Wraps request options so that, besides being forwarded, every call's usage is summed.
+ * total() reports wall-clock latency since the wrap rather than the sum of call latencies,
+ * since calls may run in parallel.
+ */
+export const trackUsage = (options: RequestOptions) => {
+  const startedAt = Date.now();
+  let total: UsageRecord | undefined;
+  return {
+    options: {
+      ...options,
+      onUsage: (usage: UsageRecord) => {
+        total = addUsage(total, usage);
+        options.onUsage?.(usage);
+      }
+    } as RequestOptions,
+    total: (): UsageRecord | undefined => total && { ...total, latencyMs: Date.now() - startedAt }
+  };
+};
@@ -3,7 +3,8 @@ export enum StepStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
-  FAILED = 'FAILED'
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED' // Set aside by the user; no longer blocks the steps that depend on it
 }
 
 export interface ReviewStep {
@@ -12,8 +13,24 @@ export interface ReviewStep {
   description: string;
   reasoning: string;
   status: StepStatus;
+  dependsOn?: string[]; // Ids of steps that must be completed or skipped before this one can run
+  overrides?: ModelOverride; // Execution settings for this step only, over the execution phase defaults
+  commentCount?: number; // Set when the step ran in review-comments mode
+  losses?: ContentLoss[]; // Content the result dropped compared with its input, found by the content guard
   output?: string;
   diffSummary?: string;
+  usage?: UsageRecord;
+  critiques?: CritiqueVerdict[]; // Critic verdicts, one per attempt; the last one judged the kept output
+}
+
+/**
+ * The critic's judgement of one attempt at a step.
+ */
+export interface CritiqueVerdict {
+  approved: boolean;
+  reasons: string[];
+  regressions: string[]; // Lost content, broken structure or domain-purity violations
+  attempt: number; // 1 for the first revision, 2 for the first retry, ...
 }
 
 export interface GapAnalysis {
@@ -28,28 +45,376 @@ export interface DocumentAnalysis {
   targetLevel: string;
   summary: string;
   gapAnalysis: GapAnalysis;
+  rubric?: RubricDimension[];
+}
+
+/**
+ * One dimension of the domain-specific quality rubric defined by the planner, scored 1–10.
+ */
+export interface RubricDimension {
+  id: string;
+  name: string;
+  criteria: string; // What a low, middle and high score mean for this dimension
+}
+
+/**
+ * A version's scores against the document's rubric, keyed by dimension id.
+ */
+export interface VersionScore {
+  scores: Record<string, number>;
+  rationales: Record<string, string>;
+  scoredAt: number;
+}
+
+export interface DocumentSection {
+  index: number;
+  heading?: string;
+  text: string;
+}
+
+export interface DocumentVersion {
+  id: string;
+  version: number;
+  parentId?: string; // Previous version on the same branch; undefined for the original document
+  text: string;
+  label: string;
+  stepId?: string; // Step that produced this version, if any
+  manual?: boolean; // Edited by hand in the document editor
+  diffSummary?: string;
+  score?: VersionScore;
+  createdAt: number;
 }
 
 export interface DocumentState {
   originalText: string;
   currentText: string;
   version: number;
+  versions: DocumentVersion[];
+  headVersionId: string | null;
+  rubric?: RubricDimension[]; // Fixed by the first plan so that every version is scored the same way
+  comments?: ReviewComment[]; // Made by steps in review-comments mode
 }
 
+export type CommentSeverity = 'critical' | 'major' | 'minor' | 'suggestion';
+
+/**
+ * A review comment anchored to a span of the document. The quote is the anchor; the offset records
+ * where it was when the comment was made and disambiguates repeated quotes after the text changes.
+ */
+export interface ReviewComment {
+  id: string;
+  stepId: string;
+  quote: string;
+  offset: number; // -1 when the quote could not be found in the text
+  severity: CommentSeverity;
+  issue: string;
+  suggestion?: string; // Replacement for the quote
+  status: 'open' | 'applied' | 'resolved' | 'dismissed';
+  createdAt: number;
+}
+
+/**
+ * How plan steps act on the document: rewrite it, or leave comments for the author.
+ */
+export type ReviewMode = 'rewrite' | 'comments';
+
 export interface AgentPlan {
   analysis: DocumentAnalysis;
   steps: ReviewStep[];
+  usage?: UsageRecord; // Cost of producing the plan
+  language?: string; // Document language code the plan was made for
+}
+
+export type LLMProvider = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+// Provider-neutral JSON schema; each provider translates it to its own structured-output mechanism
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>; // Key order is the order the model is asked to emit them in
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[]; // Allowed values of a string
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Tokens and wall time spent on one model call, or summed over several.
+ */
+export interface UsageRecord extends TokenUsage {
+  provider: LLMProvider;
+  model: string;
+  latencyMs: number;
+  calls: number;
+  label?: string; // What the calls were for, e.g. a step name
+  estimated?: boolean; // Some calls reported no usage, so token counts are estimated
+}
+
+/**
+ * USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  systemInstruction?: string;
+  schema?: JsonSchema; // When set, the response must be JSON matching this schema
+  signal?: AbortSignal;
+  onChunk?: (accumulated: string) => void; // When set, the response is streamed
+}
+
+export interface GenerationResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ProviderField {
+  key: 'apiKey' | 'baseUrl';
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  required?: boolean;
+  help?: string;
+}
+
+export interface ProviderDefinition {
+  id: LLMProvider;
+  name: string;
+  fields: ProviderField[];
+  models: { id: string; name: string }[];
+  allowCustomModel: boolean; // Free-form model id input in addition to the presets
+  generate: (request: GenerationRequest, config: AppConfig) => Promise<GenerationResult>;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RateLimitPolicy {
+  maxConcurrent: number;
+  requestsPerMinute: number; // 0 means unlimited
+}
+
+export interface ChunkingPolicy {
+  enabled: boolean;
+  maxSectionTokens: number; // Documents larger than this are executed section by section
+  maxPlanningTokens: number; // Documents larger than this are condensed before planning
+}
+
+export type ModelPhase = 'planning' | 'execution' | 'critique';
+
+/**
+ * Replaces part of the model settings for a phase or a single step. Unset fields are inherited.
+ */
+export interface ModelOverride {
+  provider?: LLMProvider;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ProviderCredentials {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface CriticPolicy {
+  enabled: boolean;
+  model?: string; // Superseded by phases.critique; still honoured for configs saved before it
+  maxRetries: number; // A rejected revision is redone with the critique fed back at most this many times
+}
+
+/**
+ * What to do when a step result loses structure or content compared with the text it started from.
+ */
+export interface ContentGuardPolicy {
+  mode: 'off' | 'warn' | 'block'; // 'block' refuses to commit the result and fails the step
+  maxShrinkPercent: number; // A result this much shorter than its input counts as a loss
+}
+
+export type ContentLossKind = 'heading' | 'table' | 'code' | 'math' | 'number' | 'entity' | 'shrink';
+
+export interface ContentLoss {
+  kind: ContentLossKind;
+  items: string[]; // What disappeared, e.g. heading texts or formulas
+}
+
+/**
+ * Outcome of one plan step in a headless run.
+ */
+export interface RunStepReport {
+  id: string;
+  name: string;
+  status: StepStatus;
+  diffSummary?: string;
+  losses?: ContentLoss[];
+  critiques?: CritiqueVerdict[];
+  usage?: UsageRecord;
+  error?: string;
 }
 
-export type LLMProvider = 'gemini' | 'openai';
+export interface RunIterationReport {
+  iteration: number; // 1-based
+  analysis: DocumentAnalysis;
+  steps: RunStepReport[];
+}
+
+/**
+ * What a headless refinement run did to one document, written next to the refined file.
+ */
+export interface RunReport {
+  source?: string; // Path of the input file, when run from the CLI
+  output?: string;
+  startedAt: number;
+  finishedAt: number;
+  provider: LLMProvider;
+  model: string;
+  inputChars: number;
+  outputChars: number;
+  iterations: RunIterationReport[];
+  usage: UsageRecord[]; // Every model call, labelled like the project usage log
+  estimatedCostUsd: number;
+  unpriced?: boolean; // Some calls used a model with no known price, so the cost is a lower bound
+  stoppedReason?: 'budget' | 'cancelled' | 'error';
+  error?: string;
+}
 
 export interface AppConfig {
   apiKey: string;
   provider: LLMProvider;
   baseUrl?: string;
   model: string;
+  temperature?: number; // Sampling temperature; unset leaves the provider default
+  maxOutputTokens?: number; // Output token cap; unset leaves the provider default
+  phases?: Partial<Record<ModelPhase, ModelOverride>>; // Per-phase defaults over the main model settings
+  credentials?: Partial<Record<LLMProvider, ProviderCredentials>>; // Kept per provider so that overrides can switch provider
+  streaming?: boolean; // Stream step output for live preview; defaults to on
+  retry?: RetryPolicy;
+  rateLimit?: RateLimitPolicy;
+  chunking?: ChunkingPolicy;
+  critic?: CriticPolicy;
+  contentGuard?: ContentGuardPolicy;
+  prices?: Record<string, ModelPrice>; // Overrides DEFAULT_MODEL_PRICES, keyed by model id
+  templates?: Partial<Record<PromptTemplateId, PromptTemplate>>; // Edited prompt templates; missing ids use the defaults
+  documentLanguage?: string; // Language code, or 'auto' (default) to detect it per document
+  translateTo?: string; // When set, steps also translate revisedText into this language
+  scoring?: boolean; // Score every version against the rubric; defaults to on
+  candidates?: CandidateVariant[]; // Last used best-of-N setup; its length is N
 }
 
+/**
+ * How one candidate of a best-of-N step run is generated. Unset fields use the main settings.
+ */
+export interface CandidateVariant {
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * One candidate revision of a step, produced from the same input as the others.
+ */
+export interface StepCandidate {
+  variant: CandidateVariant;
+  revisedText: string;
+  diffSummary: string;
+  usage?: UsageRecord;
+  critiques?: CritiqueVerdict[];
+}
+
+/**
+ * What the user decided in the candidate picker: keep one candidate, or merge several (by index).
+ */
+export type CandidateChoice = { kind: 'pick'; index: number } | { kind: 'merge'; indices: number[] };
+
+export type PromptTemplateId = 'plan' | 'execute' | 'sectionContext' | 'condense' | 'repair' | 'critic' | 'revise' | 'score' | 'merge' | 'comment';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  version: number; // Bumped on every saved edit
+  system?: string;
+  body: string; // {variable} placeholders are filled in at request time
+}
+
+/**
+ * A shareable set of edited templates, as exported to and imported from JSON.
+ */
+export interface TemplatePack {
+  format: 'docrefine-template-pack';
+  name: string;
+  exportedAt: number;
+  templates: PromptTemplate[];
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (partialText: string) => void;
+  onRetry?: (info: RetryInfo) => void;
+  onSection?: (index: number, total: number) => void; // Chunked execution: called before each section
+  onUsage?: (usage: UsageRecord) => void; // Called after every model call
+  onCritique?: (attempt: number, verdict?: CritiqueVerdict) => void; // Critic pass: called when it starts on an attempt, then with its verdict
+}
+
+/**
+ * Progress of a headless refinement run.
+ */
+export type RunEvent =
+  | { type: 'plan'; iteration: number; plan: AgentPlan }
+  | { type: 'step-start'; iteration: number; step: ReviewStep }
+  | { type: 'step-done'; iteration: number; step: RunStepReport }
+  | { type: 'retry'; info: RetryInfo };
+
+export interface RunOptions {
+  iterations?: number; // Plan-and-execute rounds, each planned on the previous round's result; defaults to 1
+  budgetUsd?: number; // No new step or round starts once the estimated cost reaches this
+  plan?: AgentPlan; // Used for the first round instead of planning the document, e.g. one plan shared by a batch
+  signal?: AbortSignal;
+  onEvent?: (event: RunEvent) => void;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One document of a batch run in the UI.
+ */
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  text: string;
+  warnings: string[]; // From importing the file
+  status: BatchItemStatus;
+  attempts: number; // Times the document has been queued
+  stepsDone: number;
+  stepsTotal: number;
+  currentStep?: string;
+  retries: number; // Provider retries during the current attempt
+  lastRetry?: string;
+  output?: string;
+  report?: RunReport;
+  error?: string;
+}
+
+// 'shared' plans the first document once and runs its steps on every document
+export type BatchPlanMode = 'individual' | 'shared';
+
 export const AVAILABLE_MODELS = [
   { id: 'gemini-3-flash-preview', name: 'Gemini 3.0 Flash (推荐 - 均衡)', provider: 'gemini' },
   { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro (最强推理)', provider: 'gemini' },
@@ -61,4 +426,46 @@ export const OPENAI_COMPATIBLE_PRESETS = [
   { id: 'deepseek-chat', name: 'DeepSeek V3' },
   { id: 'deepseek-reasoner', name: 'DeepSeek R1' },
   { id: 'claude-3-5-sonnet-20240620', name: 'Claude 3.5 Sonnet (via OneAPI)' },
-];
\ No newline at end of file
+];
+
+export const ANTHROPIC_MODELS = [
+  { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5' },
+  { id: 'claude-opus-4-1', name: 'Claude Opus 4.1' },
+  { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku' },
+];
+
+export const OLLAMA_PRESETS = [
+  { id: 'qwen2.5:14b', name: 'Qwen 2.5 14B' },
+  { id: 'llama3.1:8b', name: 'Llama 3.1 8B' },
+  { id: 'mistral-nemo', name: 'Mistral Nemo' },
+];
+
+export type DiffGranularity = 'word' | 'sentence';
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffHunk {
+  index: number;
+  before: string;
+  after: string;
+}
+
+// A diff split into unchanged text and reviewable hunks, in document order.
+export type HunkedDiff = Array<string | DiffHunk>;
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  docState: DocumentState;
+  plan: AgentPlan | null;
+  usageLog?: UsageRecord[]; // Every model call made for this project, including discarded steps
+  budgetUsd?: number; // Auto-run stops once the estimated cost reaches this
+  reviewMode?: ReviewMode; // Defaults to rewrite
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt'>;